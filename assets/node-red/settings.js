@@ -77,8 +77,9 @@ module.exports = {
         users: [
             {
                 username: "admin",
-                password:
-                    "$2a$08$zZWtXTja0fB1pzD4sHCMyOCMYz2Z6dNbM6tl8sJogENOMcxWV9DN.",
+                // Replaced during instance init with the bcrypt hash of the
+                // password stored in AWS Secrets Manager
+                password: "NODE_RED_ADMIN_PASSWORD_HASH",
                 permissions: "*",
             },
         ],
@@ -264,12 +265,14 @@ module.exports = {
      * The following property can be used to enable context storage. The configuration
      * provided here will enable file-based context that flushes to disk every 30 seconds.
      * Refer to the documentation for further options: https://nodered.org/docs/api/context/
+     * The simulator keeps its tags in the flow context, so the counters resume
+     * where they stopped when the instance is restarted.
      */
-    //contextStorage: {
-    //    default: {
-    //        module:"localfilesystem"
-    //    },
-    //},
+    contextStorage: {
+        default: {
+            module:"localfilesystem"
+        },
+    },
 
     /** `global.keys()` returns a list of all properties set in global context.
      * This allows them to be displayed in the Context Sidebar within the editor.
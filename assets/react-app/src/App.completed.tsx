@@ -23,6 +23,7 @@ import { initialize } from "@iot-app-kit/source-iotsitewise";
 import { fromEnvReactApp } from "./fromEnv";
 import { BarChart, LineChart, StatusTimeline, ResourceExplorer, WebglContext, StatusGrid, Kpi } from "@iot-app-kit/react-components";
 import { COMPARISON_OPERATOR } from '@synchro-charts/core';
+import { NO_STOP_REASON_CODE, stopReasonCodes } from "./stopReasonCodes";
 
 import "./App.css";
 
@@ -160,7 +161,7 @@ function ProductionCount(props: any) {
 
 function MachineMode(props: any) {
     return (
-        <Container disableContentPaddings={true} header={ <Header variant="h2" description="The current operational status of the machine"> {props.assetName} </Header> } >
+        <Container disableContentPaddings={true} header={ <Header variant="h2" description="The current operational status and nameplate data of the machine"> {props.assetName} </Header> } >
             <div style={{ height: "170px" }}>
                 <StatusGrid
                     viewport={{ duration: "15m" }}
@@ -187,7 +188,11 @@ function MachineMode(props: any) {
                                         },
                                         {
                                             propertyId: props.blockedPropertyId
-                                        }
+                                        },
+                                        // Optional attributes, e.g. manufacturer, serial number and rated speed
+                                        ...(props.nameplatePropertyIds || []).map((propertyId: string) => ({
+                                            propertyId: propertyId
+                                        }))
                                     ],
                                 },
                             ],
@@ -258,25 +263,66 @@ function ProductionStatus(props: any) {
     );
 }
 
+function OeeStatus(props: any) {
+    return (
+        <Container disableContentPaddings={true} header={ <Header variant="h2" description="Overall equipment effectiveness of the machine over the last 15 minutes"> OEE </Header> } >
+            <div style={{ height: "170px" }}>
+                <Kpi
+                    viewport={{ duration: "15m" }}
+                    queries={[
+                        query.timeSeriesData({
+                            assets: [
+                                {
+                                    assetId: props.assetId,
+                                    properties: [
+                                        {
+                                            propertyId: props.availabilityPropertyId
+                                        },
+                                        {
+                                            propertyId: props.performancePropertyId
+                                        },
+                                        {
+                                            propertyId: props.qualityPropertyId
+                                        },
+                                        {
+                                            propertyId: props.oeePropertyId
+                                        }
+                                    ],
+                                },
+                            ],
+                        }),
+                    ]}
+                />
+            </div>
+        </Container>
+    );
+}
+
 function StopHistory(props: any) {
     return (
-        <Container disableContentPaddings={true} header={ <Header variant="h2" description="Stop reason codes as timeline"> Stop History </Header> } >
+        <Container
+            disableContentPaddings={true}
+            header={ <Header variant="h2" description="Stop reason codes as timeline"> Stop History </Header> }
+            footer={
+                <div className="stop-reason-legend">
+                    {stopReasonCodes.map(({ code, name, category, color, description }) => (
+                        <span key={code} title={`${category}: ${description}`}>
+                            <span className="stop-reason-swatch" style={{ backgroundColor: color }}/> {code} {name}
+                        </span>
+                    ))}
+                </div>
+            }
+        >
             <div style={{ height: "170px" }}>
                 <StatusTimeline
                     viewport={{ duration: '15m' }}
                     annotations={{ 
                         y: [
-                            { color: '#1D8102', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 0 },
-                            { color: '#FFC991', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 100 },
-                            { color: '#F7AE24', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 110 },
-                            { color: '#DB6A23', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 120 },
-                            { color: '#D65199', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 130 },
-                            { color: '#7B9DAE', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 140 },
-                            { color: '#455A64', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 150 },
-                            { color: '#0EB3C7', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 160 },
-                            { color: '#0077D9', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 200 },
-                            { color: '#4F5C8E', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 220 },
-                        ] 
+                            { color: '#1D8102', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: NO_STOP_REASON_CODE },
+                            ...stopReasonCodes.map(({ code, color }) => (
+                                { color: color, comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: code }
+                            ))
+                        ]
                     }}
                     queries={[
                         query.timeSeriesData({
@@ -315,6 +361,18 @@ function Content() {
     const MACHINE_MODE_ENUM_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
     const STARVED_INDICATOR_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
     const BLOCKED_INDICATOR_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+
+    // Refer IoT SiteWise metrics (15m window)
+    const OEE_AVAILABILITY_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const OEE_PERFORMANCE_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const OEE_QUALITY_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const OEE_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+
+    // Refer IoT SiteWise attributes
+    const MANUFACTURER_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const MODEL_NUMBER_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const SERIAL_NUMBER_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
+    const RATED_SPEED_PROPERTY = '<replace-with-corresponding-sitwise-asset-property-id>';
     
 
     /* --- END: Asset Property Ids from AWS IoT SiteWise*/
@@ -331,6 +389,7 @@ function Content() {
                 { colspan: { l: 3, m: 6, default: 12 } },
                 { colspan: { l: 3, m: 6, default: 12 } },
                 { colspan: { l: 3, m: 6, default: 12 } },
+                { colspan: { l: 3, m: 6, default: 12 } },
                 { colspan: { l: 3, m: 6, default: 12 } }
             ]}>
                  <MachineMode
@@ -339,6 +398,7 @@ function Content() {
                     machineModePropertyId={MACHINE_MODE_ENUM_PROPERTY}
                     starvedPropertyId={STARVED_INDICATOR_PROPERTY}
                     blockedPropertyId={BLOCKED_INDICATOR_PROPERTY}
+                    nameplatePropertyIds={[MANUFACTURER_PROPERTY, MODEL_NUMBER_PROPERTY, SERIAL_NUMBER_PROPERTY, RATED_SPEED_PROPERTY]}
                  />
                 <MachineState 
                     assetId={DEFAULT_MACHINE_ASSET_ID}
@@ -358,6 +418,13 @@ function Content() {
                     badPartsCountPropertyId={OEE_BAD_COUNT_PROPERTY}
                     totalPartsCountPropertyId={OEE_TOTAL_COUNT_PROPERTY}
                 />
+                <OeeStatus
+                    assetId={assetId}
+                    availabilityPropertyId={OEE_AVAILABILITY_PROPERTY}
+                    performancePropertyId={OEE_PERFORMANCE_PROPERTY}
+                    qualityPropertyId={OEE_QUALITY_PROPERTY}
+                    oeePropertyId={OEE_PROPERTY}
+                />
                 <StopHistory
                     assetId={assetId}
                     stopReasonPropertyId={MACHINE_STOP_REASON_CODE_PROPERTY}
@@ -23,6 +23,7 @@ import { initialize } from "@iot-app-kit/source-iotsitewise";
 import { fromEnvReactApp } from "./fromEnv";
 import { BarChart, LineChart, StatusTimeline, ResourceExplorer, WebglContext, StatusGrid, Kpi } from "@iot-app-kit/react-components";
 import { COMPARISON_OPERATOR } from '@synchro-charts/core';
+import { NO_STOP_REASON_CODE, stopReasonCodes } from "./stopReasonCodes";
 
 import "./App.css";
 
@@ -100,7 +101,7 @@ function ProductionCount(props: any) {
 
 function MachineMode(props: any) {
     return (
-        <Container disableContentPaddings={true} header={ <Header variant="h2" description="The current operational status of the machine"> {props.assetName} </Header> } >
+        <Container disableContentPaddings={true} header={ <Header variant="h2" description="The current operational status and nameplate data of the machine"> {props.assetName} </Header> } >
             <div style={{ height: "170px" }}>
                 <StatusGrid
                     viewport={{ duration: "15m" }}
@@ -127,7 +128,11 @@ function MachineMode(props: any) {
                                         },
                                         {
                                             propertyId: props.blockedPropertyId
-                                        }
+                                        },
+                                        // Optional attributes, e.g. manufacturer, serial number and rated speed
+                                        ...(props.nameplatePropertyIds || []).map((propertyId: string) => ({
+                                            propertyId: propertyId
+                                        }))
                                     ],
                                 },
                             ],
@@ -200,23 +205,29 @@ function ProductionStatus(props: any) {
 
 function StopHistory(props: any) {
     return (
-        <Container disableContentPaddings={true} header={ <Header variant="h2" description="Stop reason codes as timeline"> Stop History </Header> } >
+        <Container
+            disableContentPaddings={true}
+            header={ <Header variant="h2" description="Stop reason codes as timeline"> Stop History </Header> }
+            footer={
+                <div className="stop-reason-legend">
+                    {stopReasonCodes.map(({ code, name, category, color, description }) => (
+                        <span key={code} title={`${category}: ${description}`}>
+                            <span className="stop-reason-swatch" style={{ backgroundColor: color }}/> {code} {name}
+                        </span>
+                    ))}
+                </div>
+            }
+        >
             <div style={{ height: "170px" }}>
                 <StatusTimeline
                     viewport={{ duration: '15m' }}
                     annotations={{ 
                         y: [
-                            { color: '#1D8102', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 0 },
-                            { color: '#FFC991', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 100 },
-                            { color: '#F7AE24', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 110 },
-                            { color: '#DB6A23', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 120 },
-                            { color: '#D65199', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 130 },
-                            { color: '#7B9DAE', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 140 },
-                            { color: '#455A64', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 150 },
-                            { color: '#0EB3C7', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 160 },
-                            { color: '#0077D9', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 200 },
-                            { color: '#4F5C8E', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: 220 },
-                        ] 
+                            { color: '#1D8102', comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: NO_STOP_REASON_CODE },
+                            ...stopReasonCodes.map(({ code, color }) => (
+                                { color: color, comparisonOperator: COMPARISON_OPERATOR.EQUAL, value: code }
+                            ))
+                        ]
                     }}
                     queries={[
                         query.timeSeriesData({
@@ -0,0 +1,41 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/**
+ * Catalog of the machine stop reason codes. The catalog itself is
+ * `assets/stop-reason-codes.json`, shared with the CDK app, and is copied to
+ * `src/stopReasonCodes.json` before the app starts or builds as Create React
+ * App only compiles files under `src`.
+ */
+
+import catalog from "./stopReasonCodes.json";
+
+export type StopCategory = "PLANNED" | "UNPLANNED";
+
+export interface StopReasonCode {
+    code: number;
+    name: string;
+    category: StopCategory;
+    color: string;
+    description: string;
+}
+
+// Stop reason code reported while the machine is not stopped
+export const NO_STOP_REASON_CODE = 0;
+
+export const stopReasonCodes = catalog as StopReasonCode[];
@@ -0,0 +1,35 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import "source-map-support/register";
+import * as cdk from "aws-cdk-lib";
+import { SitewiseAssets } from "../lib/constructs/sitewise-assets/sitewise-assets";
+import { writeSitewiseModelFile } from "../lib/constructs/sitewise-assets/sitewise-model";
+import { bottlingLineAssets } from "../lib/stacks/constants";
+
+// Write the asset models and assets of the bottling line to a model file,
+// e.g. `npm run export-sitewise-model -- sitewise-model.json`
+const file_path = process.argv[2] || "sitewise-model.json";
+
+// The stack is not deployed, skip bundling the custom resource functions
+const app = new cdk.App({ context: { "aws:cdk:bundling-stacks": [] } });
+const stack = new cdk.Stack(app, "SitewiseModelExport");
+const sitewise_assets = new SitewiseAssets(stack, "SitewiseAssets", bottlingLineAssets);
+
+writeSitewiseModelFile(file_path, sitewise_assets.modelDefinition);
+console.info(`Asset models and assets written to ${file_path}`);
@@ -23,9 +23,18 @@ import * as cdk from "aws-cdk-lib";
 import { OpcuaSimulatorStack } from "../lib/stacks/opc-ua-simulator.stack";
 
 const app = new cdk.App();
+
+// Stack configuration of the environment selected with `-c environment=<name>`,
+// see `environments` in cdk.json
+const environment = app.node.tryGetContext("environment") || "dev";
+const environment_config = (app.node.tryGetContext("environments") || {})[environment];
+if (environment_config === undefined) {
+    throw new Error(`Unknown environment ${environment}, add it to the environments of cdk.json`);
+}
+
 const opcua_simulator_stack = new OpcuaSimulatorStack(
     app,
-    "OpcuaSimulatorStack",
+    environment_config.stackName || "OpcuaSimulatorStack",
     {
         /* If you don't specify 'env', this stack will be environment-agnostic.
          * Account/Region-dependent features and context lookups will not work,
@@ -37,6 +46,29 @@ const opcua_simulator_stack = new OpcuaSimulatorStack(
         },
 
         /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
-        description: "CDK app for simulating OPC-UA server and GreengrassV2 Gateway for an industrial bottling line."
+        description: "CDK app for simulating OPC-UA server and GreengrassV2 Gateway for an industrial bottling line.",
+
+        instanceType: environment_config.instanceType,
+        machineImageParameter: environment_config.machineImageParameter,
+        nodeRedPort: environment_config.nodeRedPort,
+        opcuaPort: environment_config.opcuaPort,
+        componentVersions: environment_config.componentVersions,
+        vpcLookup: environment_config.vpcLookup,
+        dedicatedVpc: environment_config.dedicatedVpc,
+        allowedPeers: environment_config.allowedPeers,
+        httpIngress: environment_config.httpIngress,
+        opcuaIngress: environment_config.opcuaIngress,
+        tlsTermination: environment_config.tlsTermination,
+        certificateArn: environment_config.certificateArn,
+        opcuaSecurity: environment_config.opcuaSecurity,
+        additionalOpcuaSources: environment_config.additionalOpcuaSources,
+        publishingOrder: environment_config.publishingOrder,
+        maxBatchWaitTime: environment_config.maxBatchWaitTime,
+        maxBatchSize: environment_config.maxBatchSize,
+        dataProcessingPack: environment_config.dataProcessingPack,
+        noDataAlarmMinutes: environment_config.noDataAlarmMinutes,
+        alarmEmail: environment_config.alarmEmail,
+        instanceSchedule: environment_config.instanceSchedule,
+        propertyNotificationTarget: environment_config.propertyNotificationTarget
     }
 );
@@ -0,0 +1,197 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import {
+    CfnResource,
+    Fn,
+    Stack,
+    aws_iam as iam
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+/**
+ * @summary When an instance runs, e.g. weekdays from 07:00 to 19:00 in the
+ * Europe/Berlin time zone.
+ */
+export interface InstanceScheduleDefinition {
+    /**
+     * IANA time zone of the start and stop times, e.g. `Europe/Berlin`.
+     *
+     * @default - None
+     */
+    readonly timezone: string;
+
+    /**
+     * Time the instance is started, `HH:MM`.
+     *
+     * @default - None
+     */
+    readonly startTime: string;
+
+    /**
+     * Time the instance is stopped, `HH:MM`.
+     *
+     * @default - None
+     */
+    readonly stopTime: string;
+
+    /**
+     * Optional days the instance is started and stopped, as the day-of-week
+     * field of a cron expression, e.g. `MON-SAT`.
+     *
+     * @default - "MON-FRI"
+     */
+    readonly weekDays?: string;
+}
+
+/**
+ * @summary The properties for the InstanceSchedule class.
+ */
+export interface InstanceScheduleProps {
+    /**
+     * Id of the EC2 instance to start and stop.
+     *
+     * @default - None
+     */
+    readonly instanceId: string;
+
+    /**
+     * Start and stop times of the instance.
+     *
+     * @default - None
+     */
+    readonly schedule: InstanceScheduleDefinition;
+
+    /**
+     * Optional names of CloudWatch alarms whose actions are disabled while
+     * the instance is stopped.
+     *
+     * @default - None
+     */
+    readonly alarmNames?: string[];
+}
+
+// Hours and minutes of a `HH:MM` time
+const parseTime = (time: string): [number, number] => {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+    if (!match) {
+        throw new Error(`Invalid schedule time ${time}, expected HH:MM`);
+    }
+    return [parseInt(match[1]), parseInt(match[2])];
+};
+
+/**
+ * This construct starts and stops an EC2 instance on a schedule with
+ * EventBridge Scheduler, calling the EC2 API directly through universal
+ * targets. Alarm actions can be turned off while the instance is stopped,
+ * so the lack of data outside of the schedule does not notify anyone.
+ *
+ * @summary Start and stop an EC2 instance on a schedule.
+ */
+
+/**
+ * @summary The InstanceSchedule class.
+ */
+export class InstanceSchedule extends Construct {
+    public readonly startScheduleArn: string;
+    public readonly stopScheduleArn: string;
+
+    /**
+     *
+     * @summary Constructs a new instance of the InstanceSchedule class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {InstanceScheduleProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: InstanceScheduleProps) {
+        super(scope, id);
+
+        const stack = Stack.of(this);
+        const week_days = props.schedule.weekDays || "MON-FRI";
+        const [start_hours, start_minutes] = parseTime(props.schedule.startTime);
+        const [stop_hours, stop_minutes] = parseTime(props.schedule.stopTime);
+        if (start_hours * 60 + start_minutes >= stop_hours * 60 + stop_minutes) {
+            throw new Error(`Start time ${props.schedule.startTime} must be before stop time ${props.schedule.stopTime}`);
+        }
+        const alarm_names = props.alarmNames || [];
+
+        // Role for EventBridge Scheduler to call the EC2 and CloudWatch APIs
+        const scheduler_role = new iam.Role(this, "SchedulerRole", {
+            assumedBy: new iam.ServicePrincipal("scheduler.amazonaws.com"),
+            description: "Allow EventBridge Scheduler to start and stop the simulator instance",
+            inlinePolicies: {
+                StartStopInstance: new iam.PolicyDocument({
+                    statements: [
+                        new iam.PolicyStatement({
+                            actions: ["ec2:StartInstances", "ec2:StopInstances"],
+                            resources: [
+                                `arn:${Fn.ref("AWS::Partition")}:ec2:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:instance/${props.instanceId}`
+                            ]
+                        }),
+                        ...(alarm_names.length > 0 ? [
+                            new iam.PolicyStatement({
+                                actions: ["cloudwatch:DisableAlarmActions", "cloudwatch:EnableAlarmActions"],
+                                resources: alarm_names.map((alarm_name) =>
+                                    `arn:${Fn.ref("AWS::Partition")}:cloudwatch:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:alarm:${alarm_name}`
+                                )
+                            })
+                        ] : [])
+                    ]
+                })
+            }
+        });
+
+        // Schedules calling an API at a time of the week days
+        const schedule = (scheduleId: string, description: string, hours: number, minutes: number, action: string, input: object) =>
+            new CfnResource(this, scheduleId, {
+                type: "AWS::Scheduler::Schedule",
+                properties: {
+                    Description: `${description} of ${stack.stackName}`,
+                    ScheduleExpression: `cron(${minutes} ${hours} ? * ${week_days} *)`,
+                    ScheduleExpressionTimezone: props.schedule.timezone,
+                    FlexibleTimeWindow: { Mode: "OFF" },
+                    State: "ENABLED",
+                    Target: {
+                        Arn: `arn:${Fn.ref("AWS::Partition")}:scheduler:::aws-sdk:${action}`,
+                        RoleArn: scheduler_role.roleArn,
+                        Input: stack.toJsonString(input)
+                    }
+                }
+            });
+
+        const start_schedule = schedule("StartSchedule", "Start the instance", start_hours, start_minutes, "ec2:startInstances", {
+            InstanceIds: [props.instanceId]
+        });
+        const stop_schedule = schedule("StopSchedule", "Stop the instance", stop_hours, stop_minutes, "ec2:stopInstances", {
+            InstanceIds: [props.instanceId]
+        });
+        if (alarm_names.length > 0) {
+            schedule("EnableAlarmsSchedule", "Enable the alarm actions", start_hours, start_minutes, "cloudwatch:enableAlarmActions", {
+                AlarmNames: alarm_names
+            });
+            schedule("DisableAlarmsSchedule", "Disable the alarm actions", stop_hours, stop_minutes, "cloudwatch:disableAlarmActions", {
+                AlarmNames: alarm_names
+            });
+        }
+
+        // class public values
+        this.startScheduleArn = start_schedule.getAtt("Arn").toString();
+        this.stopScheduleArn = stop_schedule.getAtt("Arn").toString();
+    }
+}
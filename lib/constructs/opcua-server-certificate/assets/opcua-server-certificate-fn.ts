@@ -0,0 +1,103 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import {
+    GetParameterCommand,
+    SSMClient
+} from "@aws-sdk/client-ssm";
+import { 
+    CloudFormationCustomResourceEvent,
+    CloudFormationCustomResourceCreateEvent,
+    CloudFormationCustomResourceUpdateEvent,
+    CloudFormationCustomResourceDeleteEvent,
+    Context 
+} from 'aws-lambda';
+
+const ssmClient = new SSMClient({ maxAttempts: 10, defaultsMode: "standard"});
+
+// Note, responses are *not* lambda results, they are sent to the event ResponseURL.
+export const handler = async (event: CloudFormationCustomResourceEvent, context: Context) => {
+    console.info('Received event: ', event);
+
+    let result = {};
+
+    switch (event.RequestType) {
+        case 'Create':
+            result = onCreate(event);
+            break;
+        case 'Update':
+            result = onUpdate(event);
+            break;
+        case 'Delete':
+            result = onDelete(event);
+            break;
+
+        default:
+            throw new Error('Invalid request type');
+    }
+
+    console.info("Output from Lambda: ", result);
+    return result;
+};
+
+// Read the certificate published by the instance, escaped to be embedded in JSON
+const getCertificate = async (parameter_name: string) => {
+    const command = new GetParameterCommand({ Name: parameter_name });
+    const response = await ssmClient.send(command);
+
+    const certificate_pem = response.Parameter?.Value;
+    if (certificate_pem === undefined || !certificate_pem.includes("BEGIN CERTIFICATE")) {
+        throw new Error(`No certificate published to parameter ${parameter_name}`);
+    }
+    return {
+        EscapedCertificatePem: JSON.stringify(certificate_pem).slice(1, -1)
+    };
+}
+
+const onCreate = async (event: CloudFormationCustomResourceCreateEvent) => {
+    console.info('Create new resource with properties: ', event.ResourceProperties);
+
+    const { ParameterName: parameter_name } = event.ResourceProperties;
+
+    return {
+        PhysicalResourceId: parameter_name,
+        Data: await getCertificate(parameter_name)
+    };
+};
+
+const onUpdate = async (event: CloudFormationCustomResourceUpdateEvent) => {
+    console.info('Update existing resource with properties: ', event.ResourceProperties);
+
+    // A replaced instance generated a new certificate, read it again
+    const { ParameterName: parameter_name } = event.ResourceProperties;
+
+    return {
+        PhysicalResourceId: parameter_name,
+        Data: await getCertificate(parameter_name)
+    };
+}
+
+const onDelete = async (event: CloudFormationCustomResourceDeleteEvent) => {
+    console.info('Delete existing resource with properties: ', event.ResourceProperties);
+
+    // Nothing to delete, the parameter is owned by the stack
+    return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Data: {}
+    };
+}
@@ -0,0 +1,128 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as path from "path";
+import {
+    CustomResource,
+    Duration,
+    Stack,
+    aws_logs as logs,
+    aws_ssm as ssm
+} from "aws-cdk-lib";
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { Construct } from "constructs";
+
+/**
+ * @summary The properties for the OpcuaServerCertificate class.
+ */
+export interface OpcuaServerCertificateProps {
+    /**
+     * AWS Systems Manager parameter the instance publishes the PEM certificate
+     * of its OPC-UA server to.
+     *
+     * @default - None
+     */
+    readonly parameter: ssm.IStringParameter;
+
+    /**
+     * Id of the EC2 instance generating the certificate at boot. The certificate
+     * is read once the instance signalled the end of its initialization, and
+     * again when the instance is replaced.
+     *
+     * @default - None
+     */
+    readonly instanceId: string;
+}
+
+/**
+ * This construct reads the certificate an OPC-UA server generated at boot,
+ * so that OPC-UA clients configured by the stack, such as the AWS IoT SiteWise
+ * collector, only trust this certificate.
+ *
+ * @summary Read the certificate of an OPC-UA server published at boot.
+ */
+
+/**
+ * @summary The OpcuaServerCertificate class.
+ */
+export class OpcuaServerCertificate extends Construct {
+    // PEM certificate escaped as a JSON string, without the quotes, to be
+    // embedded in JSON configurations
+    public readonly escapedCertificatePem: string;
+
+    private customResourceName = "OpcuaServerCertificateFunction";
+
+    /**
+     *
+     * @summary Constructs a new instance of the OpcuaServerCertificate class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {OpcuaServerCertificateProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: OpcuaServerCertificateProps) {
+        super(scope, id);
+
+        const stackName = Stack.of(this).stackName;
+
+        const provider = OpcuaServerCertificate.getOrCreateProvider(this, this.customResourceName);
+        const customResource = new CustomResource(this, this.customResourceName, {
+            serviceToken: provider.serviceToken,
+            properties: {
+                StackName: stackName,
+                ParameterName: props.parameter.parameterName,
+                InstanceId: props.instanceId
+            }
+        });
+
+        // Custom resource Lambda role permissions
+        if (provider.onEventHandler.role) {
+            props.parameter.grantRead(provider.onEventHandler.role);
+        }
+
+        // class public values
+        this.escapedCertificatePem = customResource.getAttString("EscapedCertificatePem");
+    }
+
+    // Separate static function to create or return singleton provider
+    static getOrCreateProvider = (scope: Construct, resourceName: string): Provider => {
+        const stack = Stack.of(scope);
+        const uniqueId = resourceName;
+        const existing = stack.node.tryFindChild(uniqueId) as Provider;
+
+        if (existing === undefined) {
+            const certificateFn = new NodejsFunction(stack, `${uniqueId}-Provider`, {
+                entry: path.join(__dirname, "assets/opcua-server-certificate-fn.ts"),
+                timeout: Duration.minutes(1),
+                logRetention: logs.RetentionDays.ONE_MONTH
+            });
+            // Role permissions are handled by the main constructor
+
+            // Create the provider that invokes the Lambda function
+            const certificateProvider = new Provider(stack, uniqueId, {
+                onEventHandler: certificateFn,
+                logRetention: logs.RetentionDays.ONE_DAY
+            });
+            return certificateProvider;
+        } else {
+            // Second or additional call, use existing provider
+            return existing;
+        }
+    }
+}
@@ -0,0 +1,132 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+import {
+    aws_ec2 as ec2,
+    aws_route53 as route53,
+    aws_route53_targets as route53_targets
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+/**
+ * @summary The properties for the PrivateVpc class.
+ */
+export interface PrivateVpcProps {
+    /**
+     * Optional CIDR range of the VPC.
+     *
+     * @default - "10.0.0.0/16"
+     */
+    readonly cidr?: string;
+
+    /**
+     * Optional number of availability zones to use.
+     *
+     * @default - 2
+     */
+    readonly maxAzs?: number;
+
+    /**
+     * Optional AWS IoT Core data ATS endpoint address, e.g. from `IotThingCertPolicy`.
+     * The endpoint does not support private DNS, a private hosted zone resolves
+     * it to the VPC endpoint instead.
+     *
+     * @default - None, no AWS IoT Core data VPC endpoint is created
+     */
+    readonly iotDataEndpointAddress?: string;
+}
+
+/**
+ * This construct creates a VPC with public subnets holding a NAT gateway and
+ * private subnets for the instances, so they are not reachable from the internet.
+ * Traffic to AWS Systems Manager, Amazon S3, Amazon CloudWatch, AWS IoT Core,
+ * AWS IoT Greengrass and AWS IoT SiteWise goes through VPC endpoints, the NAT gateway is only
+ * used for the package installations.
+ *
+ * @summary Create a VPC with private subnets and VPC endpoints.
+ */
+
+/**
+ * @summary The PrivateVpc class.
+ */
+export class PrivateVpc extends Construct {
+    public readonly vpc: ec2.Vpc;
+    public readonly privateSubnets: ec2.SubnetSelection = { subnetType: ec2.SubnetType.PRIVATE_WITH_NAT };
+
+    /**
+     *
+     * @summary Constructs a new instance of the PrivateVpc class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {PrivateVpcProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: PrivateVpcProps = {}) {
+        super(scope, id);
+
+        const vpc = new ec2.Vpc(this, "Vpc", {
+            cidr: props.cidr || "10.0.0.0/16",
+            maxAzs: props.maxAzs ?? 2,
+            natGateways: 1,
+            subnetConfiguration: [
+                { name: "Public", subnetType: ec2.SubnetType.PUBLIC },
+                { name: "Private", subnetType: ec2.SubnetType.PRIVATE_WITH_NAT }
+            ]
+        });
+
+        vpc.addGatewayEndpoint("S3Endpoint", {
+            service: ec2.GatewayVpcEndpointAwsService.S3,
+            subnets: [this.privateSubnets]
+        });
+
+        // Interface endpoints resolved through their private DNS names
+        const interface_endpoints: { [id: string]: ec2.InterfaceVpcEndpointAwsService } = {
+            SsmEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM,
+            SsmMessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+            Ec2MessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+            CloudWatchEndpoint: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH,
+            GreengrassEndpoint: new ec2.InterfaceVpcEndpointAwsService("greengrass"),
+            SitewiseApiEndpoint: new ec2.InterfaceVpcEndpointAwsService("iotsitewise.api"),
+            SitewiseDataEndpoint: new ec2.InterfaceVpcEndpointAwsService("iotsitewise.data")
+        };
+        Object.keys(interface_endpoints).forEach((endpoint_id) => {
+            vpc.addInterfaceEndpoint(endpoint_id, {
+                service: interface_endpoints[endpoint_id],
+                subnets: this.privateSubnets
+            });
+        });
+
+        if (props.iotDataEndpointAddress) {
+            const iot_data_endpoint = vpc.addInterfaceEndpoint("IotDataEndpoint", {
+                service: new ec2.InterfaceVpcEndpointAwsService("iot.data"),
+                subnets: this.privateSubnets,
+                privateDnsEnabled: false
+            });
+            const iot_data_zone = new route53.PrivateHostedZone(this, "IotDataZone", {
+                zoneName: props.iotDataEndpointAddress,
+                vpc: vpc
+            });
+            new route53.ARecord(this, "IotDataRecord", {
+                zone: iot_data_zone,
+                target: route53.RecordTarget.fromAlias(new route53_targets.InterfaceVpcEndpointTarget(iot_data_endpoint))
+            });
+        }
+
+        // class public values
+        this.vpc = vpc;
+    }
+}
@@ -0,0 +1,76 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import {
+    GetAssetPropertyValueCommand,
+    IoTSiteWiseClient
+} from "@aws-sdk/client-iotsitewise";
+
+const sitewiseClient = new IoTSiteWiseClient({ maxAttempts: 10, defaultsMode: "standard"});
+
+// Invoked on a schedule, logs the age of the latest value received by each
+// machine in the CloudWatch embedded metric format
+export const handler = async () => {
+    const machinePropertyAliases: { [machineId: string]: string[] } = JSON.parse(process.env.MACHINE_PROPERTY_ALIASES || "{}");
+    const namespace = process.env.METRIC_NAMESPACE || "OpcuaSimulator";
+    const stackName = process.env.STACK_NAME || "";
+
+    const now = Date.now();
+    const dataAges: { [machineId: string]: number } = {};
+    for (const machineId of Object.keys(machinePropertyAliases)) {
+        // A failing alias, e.g. missing or throttled, leaves the others of the machine to go by
+        const results = await Promise.allSettled(machinePropertyAliases[machineId].map(async (propertyAlias) => {
+            const response = await sitewiseClient.send(new GetAssetPropertyValueCommand({
+                propertyAlias: propertyAlias
+            }));
+            return response.propertyValue?.timestamp?.timeInSeconds;
+        }));
+        const timestamps: number[] = [];
+        results.forEach((result, index) => {
+            if (result.status === "rejected") {
+                console.warn(`Error reading ${machinePropertyAliases[machineId][index]} of machine ${machineId}: ${result.reason}`);
+            } else if (result.value !== undefined) {
+                timestamps.push(result.value);
+            }
+        });
+        const latest = Math.max(...timestamps);
+        if (!isFinite(latest)) {
+            // Leave the metric missing, the alarm treats it as no data received
+            console.warn(`No value received yet for machine ${machineId}`);
+            continue;
+        }
+        dataAges[machineId] = Math.max(Math.round(now / 1000 - latest), 0);
+        console.log(JSON.stringify({
+            _aws: {
+                Timestamp: now,
+                CloudWatchMetrics: [
+                    {
+                        Namespace: namespace,
+                        Dimensions: [["StackName", "Machine"]],
+                        Metrics: [{ Name: "SecondsSinceLastValue", Unit: "Seconds" }]
+                    }
+                ]
+            },
+            StackName: stackName,
+            Machine: machineId,
+            SecondsSinceLastValue: dataAges[machineId]
+        }));
+    }
+
+    return { dataAges: dataAges };
+};
@@ -0,0 +1,286 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as path from "path";
+import {
+    Duration,
+    Stack,
+    aws_cloudwatch as cloudwatch,
+    aws_cloudwatch_actions as cloudwatch_actions,
+    aws_events as events,
+    aws_events_targets as targets,
+    aws_iam as iam,
+    aws_logs as logs,
+    aws_sns as sns
+} from "aws-cdk-lib";
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Construct } from "constructs";
+
+/**
+ * @summary The properties for the SimulatorMonitoring class.
+ */
+export interface SimulatorMonitoringProps {
+    /**
+     * Id of the EC2 instance running the simulator and AWS IoT Greengrass.
+     *
+     * @default - None
+     */
+    readonly instanceId: string;
+
+    /**
+     * Id of the AWS IoT SiteWise gateway.
+     *
+     * @default - None
+     */
+    readonly gatewayId: string;
+
+    /**
+     * Command line patterns of the AWS IoT Greengrass processes, by component name.
+     *
+     * @default - None
+     */
+    readonly greengrassProcesses: { [componentName: string]: string };
+
+    /**
+     * Command line pattern of the Node-RED process.
+     *
+     * @default - None
+     */
+    readonly nodeRedProcess: string;
+
+    /**
+     * Aliases of the measurements mapped to the OPC-UA tags of each machine, by
+     * machine id, the latest value of any of them tells when data was last received.
+     *
+     * @default - None
+     */
+    readonly machinePropertyAliases: { [machineId: string]: string[] };
+
+    /**
+     * Optional number of minutes without data before the alarm of a machine goes off.
+     *
+     * @default - 10
+     */
+    readonly noDataMinutes?: number;
+
+    /**
+     * Optional Amazon SNS topic notified when an alarm goes off or back to OK.
+     *
+     * @default - None
+     */
+    readonly alarmTopic?: sns.ITopic;
+}
+
+/**
+ * This construct creates a CloudWatch dashboard of the simulator host, the
+ * AWS IoT Greengrass components, the AWS IoT SiteWise ingestion and Node-RED.
+ * A scheduled AWS Lambda function records the age of the latest value of each
+ * machine, with an alarm when no data was received for a number of minutes.
+ * The process metrics are collected by the CloudWatch agent on the instance,
+ * configured with `SimulatorMonitoring.agentConfiguration`.
+ *
+ * @summary Monitor the simulator and the data it sends to AWS IoT SiteWise.
+ */
+
+/**
+ * @summary The SimulatorMonitoring class.
+ */
+export class SimulatorMonitoring extends Construct {
+    public readonly dashboardName: string;
+    public readonly alarmArns: { [machineId: string]: string } = {};
+    public readonly alarmNames: string[] = [];
+
+    // Namespace of the process metrics and of the data age of the machines
+    static readonly metricNamespace = "OpcuaSimulator";
+
+    /**
+     *
+     * @summary Constructs a new instance of the SimulatorMonitoring class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SimulatorMonitoringProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SimulatorMonitoringProps) {
+        super(scope, id);
+
+        const stack = Stack.of(this);
+        const no_data_minutes = props.noDataMinutes || 10;
+        if (no_data_minutes < 1) {
+            throw new Error("The no data alarm needs at least 1 minute");
+        }
+        const processes: { [processName: string]: string } = {
+            ...props.greengrassProcesses,
+            "Node-RED": props.nodeRedProcess
+        };
+
+        const process_metric = (processName: string) => new cloudwatch.Metric({
+            namespace: SimulatorMonitoring.metricNamespace,
+            metricName: "procstat_lookup_pid_count",
+            dimensionsMap: {
+                InstanceId: props.instanceId,
+                pattern: processes[processName],
+                pid_finder: "native"
+            },
+            statistic: "Minimum",
+            period: Duration.minutes(1),
+            label: processName
+        });
+
+        const data_age_fn = new NodejsFunction(this, "DataAgeFunction", {
+            entry: path.join(__dirname, "assets/data-age-fn.ts"),
+            timeout: Duration.minutes(1),
+            logRetention: logs.RetentionDays.ONE_MONTH,
+            environment: {
+                MACHINE_PROPERTY_ALIASES: JSON.stringify(props.machinePropertyAliases),
+                METRIC_NAMESPACE: SimulatorMonitoring.metricNamespace,
+                STACK_NAME: stack.stackName
+            }
+        });
+        data_age_fn.addToRolePolicy(
+            new iam.PolicyStatement({
+                actions: ["iotsitewise:GetAssetPropertyValue"],
+                resources: ["*"]
+            })
+        );
+
+        new events.Rule(this, "Schedule", {
+            description: "Record the age of the latest value received by each machine",
+            schedule: events.Schedule.rate(Duration.minutes(1)),
+            targets: [new targets.LambdaFunction(data_age_fn)]
+        });
+
+        // A missing data point means the age could not be read, it counts as no data
+        const alarms = Object.keys(props.machinePropertyAliases).map((machine_id) => {
+            const alarm = new cloudwatch.Alarm(this, `NoDataAlarm${machine_id.replace(/\W/g, "")}`, {
+                alarmDescription: `No data received from ${machine_id} for ${no_data_minutes} minutes`,
+                metric: new cloudwatch.Metric({
+                    namespace: SimulatorMonitoring.metricNamespace,
+                    metricName: "SecondsSinceLastValue",
+                    dimensionsMap: {
+                        StackName: stack.stackName,
+                        Machine: machine_id
+                    },
+                    statistic: "Maximum",
+                    period: Duration.minutes(1),
+                    label: machine_id
+                }),
+                threshold: no_data_minutes * 60,
+                comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+                evaluationPeriods: 1,
+                treatMissingData: cloudwatch.TreatMissingData.BREACHING
+            });
+            if (props.alarmTopic) {
+                alarm.addAlarmAction(new cloudwatch_actions.SnsAction(props.alarmTopic));
+                alarm.addOkAction(new cloudwatch_actions.SnsAction(props.alarmTopic));
+            }
+            this.alarmArns[machine_id] = alarm.alarmArn;
+            this.alarmNames.push(alarm.alarmName);
+            return alarm;
+        });
+
+        const gateway_metric = (metricName: string, label: string) => new cloudwatch.Metric({
+            namespace: "AWS/IoTSiteWise",
+            metricName: metricName,
+            dimensionsMap: { GatewayId: props.gatewayId },
+            statistic: "Sum",
+            period: Duration.minutes(1),
+            label: label
+        });
+
+        const dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+            dashboardName: `${stack.stackName}-Monitoring`
+        });
+        dashboard.addWidgets(
+            new cloudwatch.GraphWidget({
+                title: "EC2 CPU utilization",
+                left: [
+                    new cloudwatch.Metric({
+                        namespace: "AWS/EC2",
+                        metricName: "CPUUtilization",
+                        dimensionsMap: { InstanceId: props.instanceId },
+                        statistic: "Average",
+                        period: Duration.minutes(1),
+                        label: "CPU utilization"
+                    })
+                ],
+                leftYAxis: { min: 0, max: 100, label: "Percent", showUnits: false }
+            }),
+            new cloudwatch.GraphWidget({
+                title: "Greengrass component processes",
+                left: Object.keys(props.greengrassProcesses).map(process_metric),
+                leftYAxis: { min: 0, label: "Processes", showUnits: false }
+            }),
+            new cloudwatch.GraphWidget({
+                title: "Node-RED process",
+                left: [process_metric("Node-RED")],
+                leftYAxis: { min: 0, label: "Processes", showUnits: false }
+            })
+        );
+        dashboard.addWidgets(
+            new cloudwatch.GraphWidget({
+                title: "SiteWise gateway publishing",
+                left: [
+                    gateway_metric("Gateway.PublishSuccessCount", "Published"),
+                    gateway_metric("Gateway.PublishFailureCount", "Failed"),
+                    gateway_metric("Gateway.PublishRejectedCount", "Rejected")
+                ]
+            }),
+            new cloudwatch.GraphWidget({
+                title: "SiteWise OPC-UA collector",
+                left: [gateway_metric("OPCUACollector.IncomingValuesCount", "Incoming values")]
+            }),
+            new cloudwatch.GraphWidget({
+                title: "Seconds since last value",
+                left: alarms.map((alarm) => alarm.metric),
+                leftAnnotations: [{ value: no_data_minutes * 60, label: "No data", color: cloudwatch.Color.RED }],
+                leftYAxis: { min: 0, label: "Seconds", showUnits: false }
+            })
+        );
+        dashboard.addWidgets(
+            new cloudwatch.AlarmStatusWidget({
+                title: "No data alarms",
+                alarms: alarms,
+                width: 24
+            })
+        );
+
+        // class public values
+        this.dashboardName = `${stack.stackName}-Monitoring`;
+    }
+
+    // CloudWatch agent configuration collecting the metrics of the processes
+    // matching the patterns, including the pid count the dashboard shows
+    static agentConfiguration = (processPatterns: string[]): Record<string, unknown> => ({
+        agent: {
+            metrics_collection_interval: 60,
+            omit_hostname: true
+        },
+        metrics: {
+            namespace: SimulatorMonitoring.metricNamespace,
+            append_dimensions: { InstanceId: "${aws:InstanceId}" },
+            metrics_collected: {
+                procstat: processPatterns.map((pattern) => ({
+                    pattern: pattern,
+                    pid_finder: "native",
+                    measurement: ["cpu_usage", "memory_rss"]
+                }))
+            }
+        }
+    });
+}
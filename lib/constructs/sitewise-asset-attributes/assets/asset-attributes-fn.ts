@@ -0,0 +1,141 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import {
+    BatchPutAssetPropertyValueCommand,
+    DescribeAssetCommand,
+    IoTSiteWiseClient,
+    Variant
+} from "@aws-sdk/client-iotsitewise";
+import { 
+    CloudFormationCustomResourceEvent,
+    CloudFormationCustomResourceCreateEvent,
+    CloudFormationCustomResourceUpdateEvent,
+    CloudFormationCustomResourceDeleteEvent,
+    Context 
+} from 'aws-lambda';
+
+const sitewiseClient = new IoTSiteWiseClient({ maxAttempts: 10, defaultsMode: "standard"});
+
+// Note, responses are *not* lambda results, they are sent to the event ResponseURL.
+export const handler = async (event: CloudFormationCustomResourceEvent, context: Context) => {
+    console.info('Received event: ', event);
+
+    let result = {};
+
+    switch (event.RequestType) {
+        case 'Create':
+            result = onCreate(event);
+            break;
+        case 'Update':
+            result = onUpdate(event);
+            break;
+        case 'Delete':
+            result = onDelete(event);
+            break;
+
+        default:
+            throw new Error('Invalid request type');
+    }
+
+    console.info("Output from Lambda: ", result);
+    return result;
+};
+
+// Custom resource properties are received as strings, convert them to the
+// data type of the attribute
+const toVariant = (data_type: string | undefined, value: string): Variant => {
+    switch (data_type) {
+        case "DOUBLE":
+            return { doubleValue: Number(value) };
+        case "INTEGER":
+            return { integerValue: Number(value) };
+        case "BOOLEAN":
+            return { booleanValue: value === "true" };
+        default:
+            return { stringValue: value };
+    }
+}
+
+// Describe the asset and store each attribute value
+const putAttributes = async (asset_id: string, attributes: { [propertyName: string]: string }) => {
+    const response = await sitewiseClient.send(new DescribeAssetCommand({ assetId: asset_id }));
+    const timestamp = { timeInSeconds: Math.floor(Date.now() / 1000) };
+
+    const entries = Object.keys(attributes).map((property_name, index) => {
+        const property = response.assetProperties?.find((candidate) => candidate.name === property_name);
+        if (property === undefined) {
+            throw new Error(`Attribute ${property_name} not found in asset ${asset_id}`);
+        }
+        return {
+            entryId: `attribute${index}`,
+            assetId: asset_id,
+            propertyId: property.id,
+            propertyValues: [{
+                value: toVariant(property.dataType, attributes[property_name]),
+                timestamp: timestamp,
+                quality: "GOOD"
+            }]
+        };
+    });
+
+    // Up to 10 entries per request
+    for (let start = 0; start < entries.length; start += 10) {
+        const result = await sitewiseClient.send(new BatchPutAssetPropertyValueCommand({
+            entries: entries.slice(start, start + 10)
+        }));
+        if (result.errorEntries && result.errorEntries.length > 0) {
+            throw new Error(`Failed to set attributes of asset ${asset_id}: ${JSON.stringify(result.errorEntries)}`);
+        }
+    }
+}
+
+const onCreate = async (event: CloudFormationCustomResourceCreateEvent) => {
+    console.info('Create new resource with properties: ', event.ResourceProperties);
+
+    const { AssetId: asset_id, Attributes: attributes } = event.ResourceProperties;
+    await putAttributes(asset_id, attributes);
+
+    return {
+        PhysicalResourceId: asset_id,
+        Data: {}
+    };
+};
+
+const onUpdate = async (event: CloudFormationCustomResourceUpdateEvent) => {
+    console.info('Update existing resource with properties: ', event.ResourceProperties);
+
+    // Store the new values, the latest one is the value of the attribute
+    const { AssetId: asset_id, Attributes: attributes } = event.ResourceProperties;
+    await putAttributes(asset_id, attributes);
+
+    return {
+        PhysicalResourceId: asset_id,
+        Data: {}
+    };
+}
+
+const onDelete = async (event: CloudFormationCustomResourceDeleteEvent) => {
+    console.info('Delete existing resource with properties: ', event.ResourceProperties);
+
+    // Nothing to delete, the values go along with the asset
+    return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Data: {}
+    };
+}
@@ -0,0 +1,125 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as path from "path";
+import {
+    CustomResource,
+    Duration,
+    Fn,
+    Stack,
+    aws_iam as iam,
+    aws_logs as logs,
+} from "aws-cdk-lib";
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { Construct } from "constructs";
+
+/**
+ * @summary The properties for the SitewiseAssetAttributes class.
+ */
+export interface SitewiseAssetAttributesProps {
+    /**
+     * Id of the AWS IoT SiteWise asset holding the attributes.
+     *
+     * @default - None
+     */
+    readonly assetId: string;
+
+    /**
+     * Attribute values, keyed by attribute property name. Values are converted
+     * to the data type of the attribute.
+     *
+     * @default - None
+     */
+    readonly attributes: { [propertyName: string]: string | number | boolean };
+}
+
+/**
+ * This construct sets the attribute values of an AWS IoT SiteWise asset.
+ * AWS CloudFormation only sets attribute default values on the asset model,
+ * values specific to an asset are stored once the asset is created.
+ *
+ * @summary Set the attribute values of an AWS IoT SiteWise asset.
+ */
+
+/**
+ * @summary The SitewiseAssetAttributes class.
+ */
+export class SitewiseAssetAttributes extends Construct {
+    private customResourceName = "SitewiseAssetAttributesFunction";
+
+    /**
+     *
+     * @summary Constructs a new instance of the SitewiseAssetAttributes class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SitewiseAssetAttributesProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SitewiseAssetAttributesProps) {
+        super(scope, id);
+
+        const stackName = Stack.of(this).stackName;
+
+        const provider = SitewiseAssetAttributes.getOrCreateProvider(this, this.customResourceName);
+        new CustomResource(this, this.customResourceName, {
+            serviceToken: provider.serviceToken,
+            properties: {
+                StackName: stackName,
+                AssetId: props.assetId,
+                Attributes: props.attributes
+            }
+        });
+
+        // Custom resource Lambda role permissions
+        provider.onEventHandler.role?.addToPrincipalPolicy(
+            new iam.PolicyStatement({
+                actions: ["iotsitewise:DescribeAsset", "iotsitewise:BatchPutAssetPropertyValue"],
+                resources: [
+                    `arn:${Fn.ref("AWS::Partition")}:iotsitewise:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:asset/*`
+                ]
+            })
+        );
+    }
+
+    // Separate static function to create or return singleton provider
+    static getOrCreateProvider = (scope: Construct, resourceName: string): Provider => {
+        const stack = Stack.of(scope);
+        const uniqueId = resourceName;
+        const existing = stack.node.tryFindChild(uniqueId) as Provider;
+
+        if (existing === undefined) {
+            const attributesFn = new NodejsFunction(stack, `${uniqueId}-Provider`, {
+                entry: path.join(__dirname, "assets/asset-attributes-fn.ts"),
+                timeout: Duration.minutes(15),
+                logRetention: logs.RetentionDays.ONE_MONTH
+            });
+            // Role permissions are handled by the main constructor
+
+            // Create the provider that invokes the Lambda function
+            const attributesProvider = new Provider(stack, uniqueId, {
+                onEventHandler: attributesFn,
+                logRetention: logs.RetentionDays.ONE_DAY
+            });
+            return attributesProvider;
+        } else {
+            // Second or additional call, use existing provider
+            return existing;
+        }
+    }
+}
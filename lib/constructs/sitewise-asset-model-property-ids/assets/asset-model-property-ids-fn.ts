@@ -0,0 +1,116 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import {
+    DescribeAssetModelCommand,
+    IoTSiteWiseClient
+} from "@aws-sdk/client-iotsitewise";
+import { 
+    CloudFormationCustomResourceEvent,
+    CloudFormationCustomResourceCreateEvent,
+    CloudFormationCustomResourceUpdateEvent,
+    CloudFormationCustomResourceDeleteEvent,
+    Context 
+} from 'aws-lambda';
+
+const sitewiseClient = new IoTSiteWiseClient({ maxAttempts: 10, defaultsMode: "standard"});
+
+// Note, responses are *not* lambda results, they are sent to the event ResponseURL.
+export const handler = async (event: CloudFormationCustomResourceEvent, context: Context) => {
+    console.info('Received event: ', event);
+
+    let result = {};
+
+    switch (event.RequestType) {
+        case 'Create':
+            result = onCreate(event);
+            break;
+        case 'Update':
+            result = onUpdate(event);
+            break;
+        case 'Delete':
+            result = onDelete(event);
+            break;
+
+        default:
+            throw new Error('Invalid request type');
+    }
+
+    console.info("Output from Lambda: ", result);
+    return result;
+};
+
+// Describe the asset model and map each requested property to its id
+const getPropertyIds = async (
+    asset_model_id: string,
+    properties: { [key: string]: { propertyName: string, compositeModelName?: string } }
+) => {
+    const command = new DescribeAssetModelCommand({ assetModelId: asset_model_id });
+    const response = await sitewiseClient.send(command);
+
+    let property_ids: { [key: string]: string } = {};
+    for (const key of Object.keys(properties)) {
+        const { propertyName: property_name, compositeModelName: composite_model_name } = properties[key];
+        const candidates = composite_model_name
+            ? response.assetModelCompositeModels?.find((model) => model.name === composite_model_name)?.properties
+            : response.assetModelProperties;
+        const property = candidates?.find((candidate) => candidate.name === property_name);
+
+        if (property === undefined) {
+            throw new Error(`Property ${composite_model_name ? composite_model_name + "/" : ""}${property_name} not found in asset model ${asset_model_id}`);
+        }
+        if (property.id === undefined) {
+            throw new Error(`Property ${composite_model_name ? composite_model_name + "/" : ""}${property_name} has no id in asset model ${asset_model_id}`);
+        }
+        property_ids[key] = property.id;
+    }
+    return property_ids;
+}
+
+const onCreate = async (event: CloudFormationCustomResourceCreateEvent) => {
+    console.info('Create new resource with properties: ', event.ResourceProperties);
+
+    const { AssetModelId: asset_model_id, Properties: properties } = event.ResourceProperties;
+
+    return {
+        PhysicalResourceId: asset_model_id,
+        Data: await getPropertyIds(asset_model_id, properties)
+    };
+};
+
+const onUpdate = async (event: CloudFormationCustomResourceUpdateEvent) => {
+    console.info('Update existing resource with properties: ', event.ResourceProperties);
+
+    // Properties may have been added to the asset model, describe it again
+    const { AssetModelId: asset_model_id, Properties: properties } = event.ResourceProperties;
+
+    return {
+        PhysicalResourceId: asset_model_id,
+        Data: await getPropertyIds(asset_model_id, properties)
+    };
+}
+
+const onDelete = async (event: CloudFormationCustomResourceDeleteEvent) => {
+    console.info('Delete existing resource with properties: ', event.ResourceProperties);
+
+    // Nothing to delete, the asset model is owned by the stack
+    return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Data: {}
+    };
+}
@@ -0,0 +1,151 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as path from "path";
+import {
+    CustomResource,
+    Duration,
+    Fn,
+    Stack,
+    aws_iam as iam,
+    aws_logs as logs,
+} from "aws-cdk-lib";
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { Construct } from "constructs";
+
+/**
+ * @summary Location of a property in an asset model.
+ */
+export interface PropertyReference {
+    /**
+     * Name of the property.
+     *
+     * @default - None
+     */
+    readonly propertyName: string;
+
+    /**
+     * Optional name of the composite model holding the property.
+     *
+     * @default - The property is looked up in the asset model properties
+     */
+    readonly compositeModelName?: string;
+}
+
+/**
+ * @summary The properties for the SitewiseAssetModelPropertyIds class.
+ */
+export interface SitewiseAssetModelPropertyIdsProps {
+    /**
+     * Id of the AWS IoT SiteWise asset model to describe.
+     *
+     * @default - None
+     */
+    readonly assetModelId: string;
+
+    /**
+     * Properties to resolve, keyed by the name used to read back their id.
+     * Keys must be alphanumeric.
+     *
+     * @default - None
+     */
+    readonly properties: { [key: string]: PropertyReference };
+}
+
+/**
+ * This construct describes an AWS IoT SiteWise asset model once it is created
+ * and returns the ids of the requested properties. AWS CloudFormation only
+ * returns the asset model id, while AWS IoT Events alarm models and dashboards
+ * reference properties by id.
+ *
+ * @summary Resolve the property ids of an AWS IoT SiteWise asset model.
+ */
+
+/**
+ * @summary The SitewiseAssetModelPropertyIds class.
+ */
+export class SitewiseAssetModelPropertyIds extends Construct {
+    private customResource: CustomResource;
+    private customResourceName = "SitewiseAssetModelPropertyIdsFunction";
+
+    /**
+     *
+     * @summary Constructs a new instance of the SitewiseAssetModelPropertyIds class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SitewiseAssetModelPropertyIdsProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SitewiseAssetModelPropertyIdsProps) {
+        super(scope, id);
+
+        const stackName = Stack.of(this).stackName;
+
+        const provider = SitewiseAssetModelPropertyIds.getOrCreateProvider(this, this.customResourceName);
+        this.customResource = new CustomResource(this, this.customResourceName, {
+            serviceToken: provider.serviceToken,
+            properties: {
+                StackName: stackName,
+                AssetModelId: props.assetModelId,
+                Properties: props.properties
+            }
+        });
+
+        // Custom resource Lambda role permissions
+        provider.onEventHandler.role?.addToPrincipalPolicy(
+            new iam.PolicyStatement({
+                actions: ["iotsitewise:DescribeAssetModel"],
+                resources: [
+                    `arn:${Fn.ref("AWS::Partition")}:iotsitewise:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:asset-model/*`
+                ]
+            })
+        );
+    }
+
+    // methods
+    public getPropertyId(key: string): string {
+        return this.customResource.getAttString(key);
+    }
+
+    // Separate static function to create or return singleton provider
+    static getOrCreateProvider = (scope: Construct, resourceName: string): Provider => {
+        const stack = Stack.of(scope);
+        const uniqueId = resourceName;
+        const existing = stack.node.tryFindChild(uniqueId) as Provider;
+
+        if (existing === undefined) {
+            const describeFn = new NodejsFunction(stack, `${uniqueId}-Provider`, {
+                entry: path.join(__dirname, "assets/asset-model-property-ids-fn.ts"),
+                timeout: Duration.minutes(15),
+                logRetention: logs.RetentionDays.ONE_MONTH
+            });
+            // Role permissions are handled by the main constructor
+
+            // Create the provider that invokes the Lambda function
+            const describeProvider = new Provider(stack, uniqueId, {
+                onEventHandler: describeFn,
+                logRetention: logs.RetentionDays.ONE_DAY
+            });
+            return describeProvider;
+        } else {
+            // Second or additional call, use existing provider
+            return existing;
+        }
+    }
+}
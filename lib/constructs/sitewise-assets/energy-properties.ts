@@ -0,0 +1,71 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as _ from "lodash";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+import { metric, oeeWindows, variable } from "./oee-metrics";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+
+// Energy measurements of the machine model and the alias suffix of the
+// OPC-UA tag each one is mapped to
+export const energyMeasurementAliases: { [logicalId: string]: string } = {
+    ActivePower: "Energy/ActivePower",
+    EnergyConsumed: "Energy/EnergyConsumed",
+    CompressedAirFlow: "Energy/CompressedAirFlow",
+    WaterFlow: "Energy/WaterFlow"
+};
+
+const measurement = (logicalId: string, name: string, unit: string): AssetModelProperty => ({
+    dataType: "DOUBLE",
+    logicalId: logicalId,
+    name: name,
+    type: {
+        typeName: "Measurement"
+    },
+    unit: unit
+});
+
+/**
+ * Electrical power, energy meter, compressed air and water measurements of a
+ * machine, along with the energy consumed and the energy per 1000 bottles for
+ * each of the `oeeWindows`. The energy meter is a cumulative counter, so the
+ * energy consumed in a window is the spread of the counter within the window.
+ */
+export const machineEnergyProperties = (): AssetModelProperty[] => [
+    measurement("ActivePower", "Active Power", "kW"),
+    measurement("EnergyConsumed", "Energy Consumed", "kWh"),
+    measurement("CompressedAirFlow", "Compressed Air Flow", "m3/h"),
+    measurement("WaterFlow", "Water Flow", "L/min"),
+    ..._.flatMap(oeeWindows, (window) => [
+        metric("EnergyWindow", "Energy - Consumed", window,
+            "max(var_energy) - min(var_energy)",
+            [variable("var_energy", "EnergyConsumed")],
+            "kWh"
+        ),
+        metric("EnergyPerThousandBottles", "Energy - kWh per 1000 bottles", window,
+            "if(gt(var_total_count, 0), var_energy / var_total_count * 1000, 0)",
+            [
+                variable("var_energy", `EnergyWindow${window}`),
+                variable("var_total_count", `OeeTotalCount${window}`)
+            ],
+            "kWh"
+        )
+    ])
+];
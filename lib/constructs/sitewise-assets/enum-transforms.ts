@@ -0,0 +1,127 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as _ from "lodash";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+
+/**
+ * @summary An integer measurement to expose as string enum.
+ */
+export interface EnumTransformsOptions {
+    /**
+     * Logical id of the string enum transform, also used as prefix of the
+     * indicator transform logical ids.
+     *
+     * @default - None
+     */
+    readonly logicalId: string;
+
+    /**
+     * Name of the string enum transform.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Logical id of the integer property holding the enum value.
+     *
+     * @default - None
+     */
+    readonly sourceLogicalId: string;
+
+    /**
+     * String value for each integer value of the enum, e.g. `{ 1: "PRODUCING" }`.
+     *
+     * @default - None
+     */
+    readonly values: { [value: number]: string };
+
+    /**
+     * Optional flag to create a 0/1 indicator transform for each enum value.
+     *
+     * @default - false
+     */
+    readonly indicators?: boolean;
+
+    /**
+     * Optional string value for integer values missing from `values`.
+     *
+     * @default - None, the transform outputs no value
+     */
+    readonly otherwise?: string;
+}
+
+/**
+ * Transforms exposing an integer enum measurement as a string enum transform
+ * and, optionally, one 0/1 indicator transform per value, e.g. `Producing` with
+ * logical id `MachineStateEnumProducing` for `{ 1: "PRODUCING" }`.
+ */
+export const enumTransforms = (options: EnumTransformsOptions): AssetModelProperty[] => {
+    const variable_name = `var_${_.snakeCase(options.sourceLogicalId)}`;
+    const variables = [
+        {
+            name: variable_name,
+            value: {
+                propertyLogicalId: options.sourceLogicalId,
+            },
+        },
+    ];
+    const values = _.sortBy(Object.keys(options.values).map(Number));
+
+    // if(eq(var, 1), 'A').elif(eq(var, 2), 'B', <otherwise>)
+    const otherwise = options.otherwise === undefined ? "none" : `'${options.otherwise}'`;
+    const enum_expression = values
+        .map((value, index) => {
+            const condition = `eq(${variable_name}, ${value}), '${options.values[value]}'`;
+            const fallback = index === values.length - 1 ? `, ${otherwise}` : "";
+            return `${index === 0 ? "if" : ".elif"}(${condition}${fallback})`;
+        })
+        .join("");
+
+    const indicator_transforms: AssetModelProperty[] = !options.indicators ? [] : values.map((value) => ({
+        dataType: "DOUBLE",
+        logicalId: `${options.logicalId}${_.upperFirst(_.camelCase(options.values[value]))}`,
+        name: _.startCase(_.toLower(options.values[value])),
+        type: {
+            typeName: "Transform",
+            transform: {
+                expression: `if(eq(${variable_name}, ${value}), 1, 0)`,
+                variables: variables,
+            },
+        }
+    }));
+
+    return [
+        ...indicator_transforms,
+        {
+            dataType: "STRING",
+            logicalId: options.logicalId,
+            name: options.name,
+            type: {
+                typeName: "Transform",
+                transform: {
+                    expression: enum_expression,
+                    variables: variables,
+                },
+            }
+        }
+    ];
+};
@@ -0,0 +1,113 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as _ from "lodash";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+import { enumTransforms } from "./enum-transforms";
+import { metric, oeeWindows, variable } from "./oee-metrics";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+
+/**
+ * @summary A type of defect rejected by inspection stations.
+ */
+export interface DefectType {
+    readonly code: number;
+    readonly tag: string;
+    readonly name: string;
+}
+
+// Defects rejected by the vision inspection, fill level check and leak tester.
+// The code is reported by the `LastRejectReason` tag, the tag name is used for
+// the reject counter of the defect, e.g. `Inspection/RejectUnderFill`.
+export const defectTypes: DefectType[] = [
+    { code: 1, tag: "UnderFill", name: "Under fill" },
+    { code: 2, tag: "OverFill", name: "Over fill" },
+    { code: 3, tag: "MissingCap", name: "Missing cap" },
+    { code: 4, tag: "LabelDefect", name: "Label defect" },
+    { code: 5, tag: "ForeignObject", name: "Foreign object" },
+    { code: 6, tag: "Leak", name: "Leak" }
+];
+
+/**
+ * Measurements of an inspection station and the alias suffix of the OPC-UA tag
+ * each one is mapped to, with the reject counters of the given defect types only.
+ */
+export const inspectionMeasurementAliases = (tags: string[]): { [logicalId: string]: string } => ({
+    InspectedCount: "Inspection/InspectedCount",
+    RejectedCount: "Inspection/RejectedCount",
+    LastRejectReason: "Inspection/LastRejectReason",
+    ..._.fromPairs(tags.map((tag) => [`Reject${tag}`, `Inspection/Reject${tag}`]))
+});
+
+const counter = (logicalId: string, name: string): AssetModelProperty => ({
+    dataType: "INTEGER",
+    logicalId: logicalId,
+    name: name,
+    type: {
+        typeName: "Measurement"
+    },
+    unit: "Bottles"
+});
+
+/**
+ * Properties of the inspection station model: inspected, rejected and per
+ * defect type reject counters, the last reject reason code and name, and the
+ * reject rate for each of the `oeeWindows`. Counters are cumulative, so the
+ * count of a window is the spread of the counter within the window.
+ */
+export const inspectionStationProperties = (): AssetModelProperty[] => [
+    counter("InspectedCount", "Inspected Count"),
+    counter("RejectedCount", "Rejected Count"),
+    ...defectTypes.map((defect) => counter(`Reject${defect.tag}`, `Rejects - ${defect.name}`)),
+    {
+        dataType: "INTEGER",
+        logicalId: "LastRejectReason",
+        name: "Last Reject Reason Code",
+        type: {
+            typeName: "Measurement"
+        }
+    },
+    ...enumTransforms({
+        logicalId: "LastRejectReasonEnum",
+        name: "Last Reject Reason",
+        sourceLogicalId: "LastRejectReason",
+        values: _.fromPairs(defectTypes.map((defect) => [defect.code, _.toUpper(_.snakeCase(defect.tag))])),
+        otherwise: "NONE"
+    }),
+    ..._.flatMap(oeeWindows, (window) => [
+        metric("InspectedWindow", "Inspection - Inspected count", window,
+            "max(var_count) - min(var_count)",
+            [variable("var_count", "InspectedCount")],
+            "Bottles"
+        ),
+        metric("RejectedWindow", "Inspection - Rejected count", window,
+            "max(var_count) - min(var_count)",
+            [variable("var_count", "RejectedCount")],
+            "Bottles"
+        ),
+        metric("RejectRate", "Inspection - Reject rate", window,
+            "if(gt(var_inspected, 0), var_rejected / var_inspected, 0)",
+            [
+                variable("var_inspected", `InspectedWindow${window}`),
+                variable("var_rejected", `RejectedWindow${window}`)
+            ]
+        )
+    ])
+];
@@ -0,0 +1,98 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+type AssetModelCompositeModel = sitewise.CfnAssetModel.AssetModelCompositeModelProperty;
+
+/**
+ * @summary An alarm on a property of the generic machine model.
+ */
+export interface MachineAlarm {
+    readonly logicalId: string;
+    readonly name: string;
+    readonly propertyName: string;
+    readonly comparisonOperator: string;
+    readonly threshold: string;
+}
+
+// AWS IoT Events simple rules only compare numbers, so the blocked and starved
+// alarms watch the 0/1 transforms the `Blocked Indicator` and `Starved Indicator`
+// YES/NO transforms are derived from.
+export const machineStateAlarms: MachineAlarm[] = [
+    {
+        logicalId: "FaultedAlarm",
+        name: "Faulted Alarm",
+        propertyName: "Faulted",
+        comparisonOperator: "EQUAL",
+        threshold: "1"
+    },
+    {
+        logicalId: "BlockedAlarm",
+        name: "Blocked Alarm",
+        propertyName: "Blocked",
+        comparisonOperator: "EQUAL",
+        threshold: "1"
+    },
+    {
+        logicalId: "StarvedAlarm",
+        name: "Starved Alarm",
+        propertyName: "Starved",
+        comparisonOperator: "EQUAL",
+        threshold: "1"
+    }
+];
+
+/**
+ * The `AWS/ALARM` composite model of an alarm, with its source set to the
+ * AWS IoT Events alarm model evaluating it.
+ */
+export const alarmCompositeModel = (alarm: MachineAlarm, alarmModelArn: string): AssetModelCompositeModel => ({
+    name: alarm.name,
+    description: `${alarm.propertyName} ${alarm.comparisonOperator} ${alarm.threshold}`,
+    type: "AWS/ALARM",
+    compositeModelProperties: [
+        {
+            dataType: "STRING",
+            logicalId: `${alarm.logicalId}Type`,
+            name: "AWS/ALARM_TYPE",
+            type: {
+                typeName: "Attribute",
+                attribute: { defaultValue: "IOT_EVENTS" }
+            }
+        },
+        {
+            dataType: "STRUCT",
+            dataTypeSpec: "AWS/ALARM_STATE",
+            logicalId: `${alarm.logicalId}State`,
+            name: "AWS/ALARM_STATE",
+            type: {
+                typeName: "Measurement"
+            }
+        },
+        {
+            dataType: "STRING",
+            logicalId: `${alarm.logicalId}Source`,
+            name: "AWS/ALARM_SOURCE",
+            type: {
+                typeName: "Attribute",
+                attribute: { defaultValue: alarmModelArn }
+            }
+        }
+    ]
+});
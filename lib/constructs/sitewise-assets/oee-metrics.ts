@@ -0,0 +1,190 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as _ from "lodash";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+type ExpressionVariable = sitewise.CfnAssetModel.ExpressionVariableProperty;
+
+// Tumbling windows the OEE metrics are computed over
+export const oeeWindows = ["1m", "15m", "1h"];
+
+// Machine states that count as planned production time. IDLE is left out as
+// a machine without demand is not losing availability.
+const plannedStates: { [variableName: string]: string } = {
+    var_producing: "MachineStateEnumProducing",
+    var_starved: "MachineStateEnumStarved",
+    var_blocked: "MachineStateEnumBlocked",
+    var_changeover: "MachineStateEnumChangeover",
+    var_stopped: "MachineStateEnumStopped",
+    var_faulted: "MachineStateEnumFaulted"
+};
+
+export const variable = (name: string, propertyLogicalId: string, hierarchyLogicalId?: string): ExpressionVariable => ({
+    name: name,
+    value: {
+        propertyLogicalId: propertyLogicalId,
+        hierarchyLogicalId: hierarchyLogicalId
+    }
+});
+
+export const metric = (
+    logicalId: string,
+    name: string,
+    window: string,
+    expression: string,
+    variables: ExpressionVariable[],
+    unit?: string
+): AssetModelProperty => ({
+    dataType: "DOUBLE",
+    logicalId: `${logicalId}${window}`,
+    name: `${name} (${window})`,
+    type: {
+        typeName: "Metric",
+        metric: {
+            expression: expression,
+            variables: variables,
+            window: {
+                tumbling: { interval: window }
+            }
+        }
+    },
+    unit: unit
+});
+
+/**
+ * The `Planned Production` measurement, 1 when the shift calendar plans the
+ * line to produce and 0 otherwise, and the `Planned Producing` indicator of a
+ * machine producing within planned production time.
+ */
+export const plannedProductionProperties = (): AssetModelProperty[] => [
+    {
+        dataType: "DOUBLE",
+        logicalId: "PlannedProduction",
+        name: "Planned Production",
+        type: {
+            typeName: "Measurement"
+        }
+    },
+    {
+        dataType: "DOUBLE",
+        logicalId: "PlannedProducing",
+        name: "Planned Producing",
+        type: {
+            typeName: "Transform",
+            transform: {
+                expression: "var_producing * var_planned",
+                variables: [
+                    variable("var_producing", "MachineStateEnumProducing"),
+                    variable("var_planned", "PlannedProduction")
+                ]
+            }
+        }
+    }
+];
+
+/**
+ * Availability, performance, quality and OEE metrics of a machine, along with
+ * the run time, planned time and counts they are derived from, for each of the
+ * `oeeWindows`. The processed and defective counts are cumulative counters, so
+ * the output of a window is the spread of the counter within the window.
+ * Performance is measured against the `Rated Speed` attribute of the machine.
+ * With `plannedProduction`, planned time follows the `Planned Production`
+ * measurement instead of the machine states and run time outside of it is left out.
+ */
+export const machineOeeMetrics = (plannedProduction = false): AssetModelProperty[] => _.flatMap(oeeWindows, (window) => [
+    plannedProduction
+        ? metric("OeeRunTime", "OEE - Run time", window,
+            "statetime(var_producing)",
+            [variable("var_producing", "PlannedProducing")],
+            "Seconds"
+        )
+        : metric("OeeRunTime", "OEE - Run time", window,
+            "statetime(var_producing)",
+            [variable("var_producing", "MachineStateEnumProducing")],
+            "Seconds"
+        ),
+    plannedProduction
+        ? metric("OeePlannedTime", "OEE - Planned time", window,
+            "statetime(var_planned)",
+            [variable("var_planned", "PlannedProduction")],
+            "Seconds"
+        )
+        : metric("OeePlannedTime", "OEE - Planned time", window,
+            Object.keys(plannedStates).map((name) => `statetime(${name})`).join(" + "),
+            Object.keys(plannedStates).map((name) => variable(name, plannedStates[name])),
+            "Seconds"
+        ),
+    metric("OeeTotalCount", "OEE - Total count", window,
+        "max(var_count) - min(var_count)",
+        [variable("var_count", "ProdProcessedCount")],
+        "Bottles"
+    ),
+    metric("OeeBadCount", "OEE - Bad count", window,
+        "max(var_count) - min(var_count)",
+        [variable("var_count", "ProdDefectiveCount")],
+        "Bottles"
+    ),
+    metric("OeeAvailability", "OEE - Availability", window,
+        "if(gt(var_planned_time, 0), var_run_time / var_planned_time, 0)",
+        [
+            variable("var_run_time", `OeeRunTime${window}`),
+            variable("var_planned_time", `OeePlannedTime${window}`)
+        ]
+    ),
+    metric("OeePerformance", "OEE - Performance", window,
+        "if(gt(var_run_time, 0), var_total_count / (var_run_time / 60) / var_rated_speed, 0)",
+        [
+            variable("var_run_time", `OeeRunTime${window}`),
+            variable("var_total_count", `OeeTotalCount${window}`),
+            variable("var_rated_speed", "RatedSpeed")
+        ]
+    ),
+    metric("OeeQuality", "OEE - Quality", window,
+        "if(gt(var_total_count, 0), (var_total_count - var_bad_count) / var_total_count, 0)",
+        [
+            variable("var_total_count", `OeeTotalCount${window}`),
+            variable("var_bad_count", `OeeBadCount${window}`)
+        ]
+    ),
+    metric("Oee", "OEE", window,
+        "var_availability * var_performance * var_quality",
+        [
+            variable("var_availability", `OeeAvailability${window}`),
+            variable("var_performance", `OeePerformance${window}`),
+            variable("var_quality", `OeeQuality${window}`)
+        ]
+    )
+]);
+
+/**
+ * Line level availability, performance, quality and OEE metrics, averaged over
+ * the machines found under `hierarchyLogicalId` for each of the `oeeWindows`.
+ */
+export const lineOeeMetrics = (hierarchyLogicalId: string): AssetModelProperty[] => _.flatMap(oeeWindows, (window) =>
+    [
+        ["OeeAvailability", "OEE - Availability"],
+        ["OeePerformance", "OEE - Performance"],
+        ["OeeQuality", "OEE - Quality"],
+        ["Oee", "OEE"]
+    ].map(([logicalId, name]) => metric(logicalId, name, window,
+        "avg(var_machines)",
+        [variable("var_machines", `${logicalId}${window}`, hierarchyLogicalId)]
+    ))
+);
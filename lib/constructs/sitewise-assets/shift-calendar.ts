@@ -0,0 +1,236 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/**
+ * @summary A break within a shift, e.g. `{ start: "10:00", end: "10:30" }`.
+ */
+export interface BreakDefinition {
+    /**
+     * Optional name of the break.
+     *
+     * @default - None
+     */
+    readonly name?: string;
+
+    /**
+     * Start of the break, `HH:MM` local time.
+     *
+     * @default - None
+     */
+    readonly start: string;
+
+    /**
+     * End of the break, `HH:MM` local time.
+     *
+     * @default - None
+     */
+    readonly end: string;
+}
+
+/**
+ * @summary A shift repeated on the given week days.
+ */
+export interface ShiftDefinition {
+    /**
+     * Name of the shift.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Start of the shift, `HH:MM` local time.
+     *
+     * @default - None
+     */
+    readonly start: string;
+
+    /**
+     * End of the shift, `HH:MM` local time. A shift ending before its start
+     * ends on the next day.
+     *
+     * @default - None
+     */
+    readonly end: string;
+
+    /**
+     * Optional ISO week days the shift starts on, 1 for Monday to 7 for Sunday.
+     *
+     * @default - [1, 2, 3, 4, 5], Monday to Friday
+     */
+    readonly days?: number[];
+
+    /**
+     * Optional breaks of the shift, not planned for production.
+     *
+     * @default - None
+     */
+    readonly breaks?: BreakDefinition[];
+}
+
+/**
+ * @summary A one-off period without planned production, e.g. a maintenance day.
+ */
+export interface PlannedDowntimeDefinition {
+    /**
+     * Name of the planned downtime.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Start of the planned downtime, ISO 8601 local date and time, e.g. `2022-12-24T06:00`.
+     *
+     * @default - None
+     */
+    readonly start: string;
+
+    /**
+     * End of the planned downtime, ISO 8601 local date and time.
+     *
+     * @default - None
+     */
+    readonly end: string;
+}
+
+/**
+ * @summary The periods a line is planned to produce.
+ */
+export interface ShiftCalendar {
+    /**
+     * IANA time zone of the shift times, e.g. `Europe/Berlin`.
+     *
+     * @default - None
+     */
+    readonly timeZone: string;
+
+    /**
+     * Shifts of the line.
+     *
+     * @default - None
+     */
+    readonly shifts: ShiftDefinition[];
+
+    /**
+     * Optional planned downtime, overriding the shifts.
+     *
+     * @default - None
+     */
+    readonly plannedDowntime?: PlannedDowntimeDefinition[];
+}
+
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const dateTimePattern = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Check the times, days and time zone of a shift calendar. Returns the list of
+ * errors found.
+ */
+export const validateShiftCalendar = (calendar: ShiftCalendar): string[] => {
+    const errors: string[] = [];
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: calendar.timeZone });
+    } catch (error) {
+        errors.push(`Unknown time zone ${calendar.timeZone}`);
+    }
+    if (calendar.shifts.length === 0) {
+        errors.push("At least one shift is needed");
+    }
+    calendar.shifts.forEach((shift) => {
+        const times = (shift.breaks || []).reduce((all, period) => [...all, period.start, period.end], [shift.start, shift.end]);
+        times.filter((time) => !timePattern.test(time))
+            .forEach((time) => errors.push(`Shift ${shift.name}: invalid time ${time}, expected HH:MM`));
+        (shift.days || []).filter((day) => !Number.isInteger(day) || day < 1 || day > 7)
+            .forEach((day) => errors.push(`Shift ${shift.name}: invalid week day ${day}, expected 1 to 7`));
+    });
+    (calendar.plannedDowntime || []).forEach((downtime) => {
+        [downtime.start, downtime.end]
+            .filter((date_time) => !dateTimePattern.test(date_time))
+            .forEach((date_time) => errors.push(`Planned downtime ${downtime.name}: invalid date and time ${date_time}, expected YYYY-MM-DDTHH:MM`));
+        if (downtime.start >= downtime.end) {
+            errors.push(`Planned downtime ${downtime.name}: start must be before end`);
+        }
+    });
+    return errors;
+};
+
+// Local date, ISO week day and minute of the day of `date` in `timeZone`
+const localTime = (date: Date, timeZone: string) => {
+    const parts: { [type: string]: string } = {};
+    new Intl.DateTimeFormat("en-US", {
+        timeZone: timeZone,
+        hour12: false,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit"
+    }).formatToParts(date).forEach((part) => parts[part.type] = part.value);
+
+    const day = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].indexOf(parts.weekday) + 1;
+    // Some runtimes format midnight as 24
+    const hour = `${Number(parts.hour) % 24}`.padStart(2, "0");
+    return {
+        dateTime: `${parts.year}-${parts.month}-${parts.day}T${hour}:${parts.minute}`,
+        day: day,
+        minute: Number(hour) * 60 + Number(parts.minute)
+    };
+};
+
+// Whether `minute` falls in [start, end), both as minutes of the day, with
+// periods ending before their start wrapping over midnight
+const inPeriod = (minute: number, start: number, end: number) =>
+    start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+
+/**
+ * Whether the line is planned to produce at `date`: within a shift, outside of
+ * its breaks and outside of any planned downtime.
+ */
+export const isPlannedProduction = (calendar: ShiftCalendar, date: Date): boolean => {
+    const local = localTime(date, calendar.timeZone);
+
+    const in_downtime = (calendar.plannedDowntime || []).some((downtime) =>
+        local.dateTime >= downtime.start && local.dateTime < downtime.end
+    );
+    if (in_downtime) {
+        return false;
+    }
+
+    return calendar.shifts.some((shift) => {
+        const start = toMinutes(shift.start);
+        const end = toMinutes(shift.end);
+        if (!inPeriod(local.minute, start, end)) {
+            return false;
+        }
+        // Past midnight, the shift started on the day before
+        const start_day = start > end && local.minute < end ? (local.day === 1 ? 7 : local.day - 1) : local.day;
+        if (!(shift.days || [1, 2, 3, 4, 5]).includes(start_day)) {
+            return false;
+        }
+        return !(shift.breaks || []).some((period) =>
+            inPeriod(local.minute, toMinutes(period.start), toMinutes(period.end))
+        );
+    });
+};
@@ -16,17 +16,477 @@
  * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
-import { aws_iotsitewise as sitewise, StackProps } from "aws-cdk-lib";
+import * as _ from "lodash";
+import {
+    Fn,
+    Stack,
+    aws_iam as iam,
+    aws_iotevents as iotevents,
+    aws_iotsitewise as sitewise
+} from "aws-cdk-lib";
 import { Construct } from "constructs";
 
+import { SitewiseAssetModelPropertyIds } from "../sitewise-asset-model-property-ids/sitewise-asset-model-property-ids";
+import { SitewisePlannedProduction } from "../sitewise-planned-production/sitewise-planned-production";
+import { energyMeasurementAliases, machineEnergyProperties } from "./energy-properties";
+import { enumTransforms } from "./enum-transforms";
+import { defectTypes, inspectionMeasurementAliases, inspectionStationProperties } from "./inspection-station";
+import { alarmCompositeModel, MachineAlarm, machineStateAlarms } from "./machine-alarms";
+import { lineOeeMetrics, machineOeeMetrics, plannedProductionProperties } from "./oee-metrics";
+import { ShiftCalendar, validateShiftCalendar } from "./shift-calendar";
+import {
+    AssetDefinition,
+    AssetModelDefinition,
+    createSitewiseModel,
+    readSitewiseModelFile,
+    SitewiseModelDefinition
+} from "./sitewise-model";
+import { stopCategoryTransform } from "./stop-category";
+
+/**
+ * @summary Nameplate data of a machine, stored as asset attributes.
+ */
+export interface MachineAttributes {
+    /**
+     * Optional manufacturer of the machine.
+     *
+     * @default - None
+     */
+    readonly manufacturer?: string;
+
+    /**
+     * Optional model number of the machine.
+     *
+     * @default - None
+     */
+    readonly modelNumber?: string;
+
+    /**
+     * Optional serial number of the machine.
+     *
+     * @default - None
+     */
+    readonly serialNumber?: string;
+
+    /**
+     * Optional commissioning date of the machine, as an ISO 8601 date.
+     *
+     * @default - None
+     */
+    readonly commissioningDate?: string;
+
+    /**
+     * Optional rated speed of the machine, in bottles per minute. Used as the
+     * ideal speed of the OEE performance metric.
+     *
+     * @default - 60, the top speed of the simulated machines
+     */
+    readonly ratedSpeed?: number;
+
+    /**
+     * Optional location of the machine in the plant.
+     *
+     * @default - None
+     */
+    readonly location?: string;
+}
+
+/**
+ * @summary A machine on the line.
+ */
+export interface MachineDefinition {
+    /**
+     * Machine identifier as used in the OPC-UA tag path, e.g. `UN01`.
+     *
+     * @default - None
+     */
+    readonly id: string;
+
+    /**
+     * Name of the AWS IoT SiteWise asset created for the machine.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Optional prefix for the property aliases of the machine.
+     *
+     * @default - `<data stream prefix>/<line name>/<machine id>`
+     */
+    readonly aliasPrefix?: string;
+
+    /**
+     * Optional nameplate data of the machine.
+     *
+     * @default - None, the asset model default values are used
+     */
+    readonly attributes?: MachineAttributes;
+
+    /**
+     * Optional logical ids of the machine properties publishing a notification
+     * on each value update, e.g. `MachineState`.
+     *
+     * @default - The `notifiedProperties` of the line
+     */
+    readonly notifiedProperties?: string[];
+}
+
+/**
+ * @summary A quality inspection station on the line, e.g. a vision inspection,
+ * fill level check or leak tester.
+ */
+export interface InspectionStationDefinition {
+    /**
+     * Station identifier as used in the OPC-UA tag path, e.g. `QC01`.
+     *
+     * @default - None
+     */
+    readonly id: string;
+
+    /**
+     * Name of the AWS IoT SiteWise asset created for the station.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Optional prefix for the property aliases of the station.
+     *
+     * @default - `<data stream prefix>/<line name>/<station id>`
+     */
+    readonly aliasPrefix?: string;
+
+    /**
+     * Optional tags of the defect types rejected by the station, e.g. `UnderFill`,
+     * see `defectTypes`. Only the reject counters of these types get an alias.
+     *
+     * @default - All the defect types
+     */
+    readonly defectTypes?: string[];
+
+    /**
+     * Optional logical ids of the station properties publishing a notification
+     * on each value update, e.g. `LastRejectReason`.
+     *
+     * @default - None
+     */
+    readonly notifiedProperties?: string[];
+}
+
+/**
+ * @summary The topology of a production line.
+ */
+export interface LineDefinition {
+    /**
+     * Name of the line, used as the root of the default property aliases.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Optional prefix the AWS IoT SiteWise collector adds to the OPC-UA paths
+     * of the line tags, e.g. `/Plant A`, also used by the default property aliases.
+     *
+     * @default - None
+     */
+    readonly dataStreamPrefix?: string;
+
+    /**
+     * Machines of the line, in process order.
+     *
+     * @default - None
+     */
+    readonly machines: MachineDefinition[];
+
+    /**
+     * Optional inspection stations of the line, in process order.
+     *
+     * @default - None
+     */
+    readonly inspectionStations?: InspectionStationDefinition[];
+
+    /**
+     * Optional logical ids of the machine properties publishing a notification
+     * on each value update, for the machines without their own `notifiedProperties`.
+     * Notifications are published to the `$aws/sitewise/asset-models/<asset model id>/assets/<asset id>/properties/<property id>` MQTT topic.
+     *
+     * @default - None
+     */
+    readonly notifiedProperties?: string[];
+}
+
+/**
+ * @summary The options for the machine alarms.
+ */
+export interface MachineAlarmsOptions {
+    /**
+     * Optional threshold for the `Current Speed` alarm, in bottles per minute.
+     *
+     * @default - 10
+     */
+    readonly currentSpeedThreshold?: number;
+
+    /**
+     * Optional comparison operator applied between `Current Speed` and the threshold.
+     * One of LESS, LESS_OR_EQUAL, EQUAL, NOT_EQUAL, GREATER_OR_EQUAL or GREATER.
+     *
+     * @default - "LESS"
+     */
+    readonly currentSpeedComparisonOperator?: string;
+
+    /**
+     * Optional severity of the alarms, lower is more severe.
+     *
+     * @default - 3
+     */
+    readonly severity?: number;
+}
+
+/**
+ * @summary The properties for the SitewiseAssets class.
+ */
+export interface SitewiseAssetsProps {
+    /**
+     * Line definition to create the machine assets for.
+     *
+     * @default - None
+     */
+    readonly line: LineDefinition;
+
+    /**
+     * Optional name of the area asset the line belongs to.
+     *
+     * @default - "Packaging Area"
+     */
+    readonly areaName?: string;
+
+    /**
+     * Optional name of the site asset the area belongs to.
+     *
+     * @default - "Bottling Plant"
+     */
+    readonly siteName?: string;
+
+    /**
+     * Optional alarms for the fault, blocked and starved states and the current
+     * speed of the machines, evaluated by AWS IoT Events.
+     *
+     * @default - None, no alarms are created
+     */
+    readonly alarms?: MachineAlarmsOptions;
+
+    /**
+     * Optional electrical power, energy, compressed air and water measurements
+     * of the machines, mapped to the `Energy` tags of the machines, along with
+     * the energy per 1000 bottles metrics.
+     *
+     * @default - false
+     */
+    readonly energy?: boolean;
+
+    /**
+     * Optional path of a JSON or YAML model file with more asset models and assets
+     * to create, see `SitewiseModelDefinition`. They may reference the asset models and
+     * assets of the line by logical id, e.g. `GenericMachineModel` or `LineAsset`.
+     *
+     * @default - None
+     */
+    readonly modelFile?: string;
+
+    /**
+     * Optional shift calendar of the line. A `Planned Production` measurement
+     * of the machines is updated from the calendar and the OEE planned time
+     * and run time only count the time production is planned.
+     *
+     * @default - None, the machine states define the planned time
+     */
+    readonly shiftCalendar?: ShiftCalendar;
+}
+
+// Measurements of the generic machine model and the alias suffix of the
+// OPC-UA tag each one is mapped to
+const machineMeasurementAliases: { [logicalId: string]: string } = {
+    MachineState: "Status/StateCurrent",
+    MachineMode: "Status/ModeCurrent",
+    CurrentSpeed: "Status/CurMachSpeed",
+    MachineBlocked: "Status/Blocked",
+    MachineStarved: "Status/Starved",
+    StopReason: "Admin/StopReasonCode",
+    ProdProcessedCount: "Admin/ProcessedCount",
+    ProdDefectiveCount: "Admin/DefectiveCount",
+    ProductCode: "Product/ProductCode",
+    BatchId: "Product/BatchId",
+    TargetSpeed: "Product/TargetSpeed"
+};
+
+// Properties of an asset, with the alias of the measurements mapped to a tag
+// and the notification state of each property
+const assetProperties = (
+    assetName: string,
+    modelProperties: sitewise.CfnAssetModel.AssetModelPropertyProperty[],
+    aliases: { [logicalId: string]: string },
+    notifiedProperties: string[]
+): sitewise.CfnAsset.AssetPropertyProperty[] => {
+    const unknown_properties = notifiedProperties.filter((logicalId) =>
+        !modelProperties.some((property) => property.logicalId === logicalId)
+    );
+    if (unknown_properties.length > 0) {
+        throw new Error(`Unknown notified properties ${unknown_properties.join(", ")} for asset ${assetName}`);
+    }
+    return _.union(Object.keys(aliases), notifiedProperties).map((logicalId) => ({
+        logicalId: logicalId,
+        alias: aliases[logicalId],
+        notificationState: notifiedProperties.includes(logicalId) ? "ENABLED" : "DISABLED",
+    }));
+};
+
+// Alias suffix of the `Planned Production` measurement, not an OPC-UA tag but
+// updated from the shift calendar
+const plannedProductionAlias = "Calendar/PlannedProduction";
+
+// Attributes of the generic machine model, keyed by the matching field of
+// the machine attributes
+const machineAttributeProperties: { [key in keyof MachineAttributes]-?: sitewise.CfnAssetModel.AssetModelPropertyProperty } = {
+    manufacturer: {
+        dataType: "STRING",
+        logicalId: "Manufacturer",
+        name: "Manufacturer",
+        type: { typeName: "Attribute" }
+    },
+    modelNumber: {
+        dataType: "STRING",
+        logicalId: "ModelNumber",
+        name: "Model Number",
+        type: { typeName: "Attribute" }
+    },
+    serialNumber: {
+        dataType: "STRING",
+        logicalId: "SerialNumber",
+        name: "Serial Number",
+        type: { typeName: "Attribute" }
+    },
+    commissioningDate: {
+        dataType: "STRING",
+        logicalId: "CommissioningDate",
+        name: "Commissioning Date",
+        type: { typeName: "Attribute" }
+    },
+    ratedSpeed: {
+        dataType: "DOUBLE",
+        logicalId: "RatedSpeed",
+        name: "Rated Speed",
+        type: {
+            typeName: "Attribute",
+            attribute: { defaultValue: "60" }
+        },
+        unit: "Bottles per minute"
+    },
+    location: {
+        dataType: "STRING",
+        logicalId: "Location",
+        name: "Location",
+        type: { typeName: "Attribute" }
+    }
+};
+
+// Values of the `Machine State` and `Machine Mode` measurements. Each machine
+// state also gets a 0/1 indicator transform, named after the state.
+const machineStates = {
+    1: "PRODUCING",
+    2: "IDLE",
+    3: "STARVED",
+    4: "BLOCKED",
+    5: "CHANGEOVER",
+    6: "STOPPED",
+    7: "FAULTED"
+};
+
+const machineModes = {
+    1: "AUTOMATIC",
+    2: "MAINTENANCE",
+    3: "MANUAL"
+};
+
+/**
+ * This construct creates the AWS IoT SiteWise asset model for a generic machine
+ * and one asset per machine of the provided line definition, along with an inspection
+ * station model and assets when the line has inspection stations. The machines and
+ * stations are associated under line, area and site assets, following the ISA-95 plant hierarchy.
+ * Nameplate data of the machines is stored as asset attributes. OEE metrics are
+ * computed for each machine against its rated speed and averaged over the machines of the line.
+ * Optionally, alarm composite models are added to the machine model along with the
+ * AWS IoT Events alarm models that evaluate them, energy measurements are added
+ * to track the energy used per bottle, and a shift calendar sets the planned
+ * production time the OEE availability is measured against.
+ *
+ * @summary Create AWS IoT SiteWise asset models and assets for a line.
+ */
+
+/**
+ * @summary The SitewiseAssets class.
+ */
 export class SitewiseAssets extends Construct {
-    constructor(scope: Construct, id: string, props?: StackProps) {
+    public readonly machineAssetModelId: string;
+    public readonly machineAssetIds: { [machineId: string]: string } = {};
+    public readonly lineAssetModelId: string;
+    public readonly lineAssetId: string;
+    public readonly areaAssetId: string;
+    public readonly siteAssetId: string;
+    public readonly alarmModelArns: { [alarmLogicalId: string]: string } = {};
+    public readonly alarmStatePropertyIds: { [alarmLogicalId: string]: string } = {};
+    public readonly assetModelIds: { [logicalId: string]: string } = {};
+    public readonly assetIds: { [logicalId: string]: string } = {};
+    public readonly modelDefinition: SitewiseModelDefinition;
+    public readonly notifiedAssetModelIds: string[] = [];
+    public readonly opcuaRootPaths: string[] = [];
+    public readonly machineTagAliases: { [machineId: string]: string[] } = {};
+
+    /**
+     *
+     * @summary Constructs a new instance of the SitewiseAssets class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SitewiseAssetsProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SitewiseAssetsProps) {
         super(scope, id);
 
-        const machine_model = new sitewise.CfnAssetModel(this, "GenericMachineModel", {
-            assetModelName: "Generic Machine Model",
-            assetModelDescription: "Asset model for a industrial bottling line machine.",
-            assetModelProperties: [
+        const stackName = Stack.of(this).stackName;
+        const line = props.line;
+
+        if (props.shiftCalendar) {
+            const calendar_errors = validateShiftCalendar(props.shiftCalendar);
+            if (calendar_errors.length > 0) {
+                throw new Error(`Invalid shift calendar: ${calendar_errors.join("; ")}`);
+            }
+        }
+
+        // Alarm models are referenced by ARN from the asset model and by the asset
+        // model property ids from the alarm models. Use the known ARN format for
+        // the first reference to avoid a circular dependency.
+        const alarms: MachineAlarm[] = props.alarms ? [
+            ...machineStateAlarms,
+            {
+                logicalId: "CurrentSpeedAlarm",
+                name: "Current Speed Alarm",
+                propertyName: "Current Speed",
+                comparisonOperator: props.alarms.currentSpeedComparisonOperator || "LESS",
+                threshold: `${props.alarms.currentSpeedThreshold ?? 10}`
+            }
+        ] : [];
+        const alarmModelName = (alarm: MachineAlarm) => `${stackName}-${alarm.logicalId}`;
+        const alarmModelArn = (alarm: MachineAlarm) =>
+            `arn:${Fn.ref("AWS::Partition")}:iotevents:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:alarmModel/${alarmModelName(alarm)}`;
+
+        const machine_model_definition: AssetModelDefinition = {
+            logicalId: "GenericMachineModel",
+            name: "Generic Machine Model",
+            description: "Asset model for a industrial bottling line machine.",
+            properties: [
                 {
                     dataType: "INTEGER",
                     logicalId: "MachineState",
@@ -95,145 +555,37 @@ export class SitewiseAssets extends Construct {
                     unit: "Bottles"
                 },
                 {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumProducing",
-                    name: "Producing",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 1), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
-                {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumIdle",
-                    name: "Idle",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 2), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
-                {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumStarved",
-                    name: "Starved",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 3), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
-                {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumBlocked",
-                    name: "Blocked",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 4), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
-                {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumChangeover",
-                    name: "Changeover",
+                    dataType: "STRING",
+                    logicalId: "ProductCode",
+                    name: "Product Code",
                     type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 5), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
+                        typeName: "Measurement",
                     }
                 },
                 {
-                    dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumStopped",
-                    name: "Stopped",
+                    dataType: "STRING",
+                    logicalId: "BatchId",
+                    name: "Batch ID",
                     type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 6), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
+                        typeName: "Measurement",
                     }
                 },
                 {
                     dataType: "DOUBLE",
-                    logicalId: "MachineStateEnumFaulted",
-                    name: "Faulted",
+                    logicalId: "TargetSpeed",
+                    name: "Target Speed",
                     type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_state, 7), 1, 0)",
-                            variables: [
-                                {
-                                    name: "var_machine_state",
-                                    value: {
-                                        propertyLogicalId: "MachineState",
-                                    },
-                                },
-                            ],
-                        },
-                    }
+                        typeName: "Measurement",
+                    },
+                    unit: "Bottles per minute"
                 },
+                ...enumTransforms({
+                    logicalId: "MachineStateEnum",
+                    name: "Machine State Enum",
+                    sourceLogicalId: "MachineState",
+                    values: machineStates,
+                    indicators: true
+                }),
                 {
                     dataType: "STRING",
                     logicalId: "MachineStateIndicatorStarved",
@@ -274,158 +626,276 @@ export class SitewiseAssets extends Construct {
                         },
                     }
                 },
-                {
-                    dataType: "STRING",
+                ...enumTransforms({
                     logicalId: "MachineModeEnum",
                     name: "Machine Mode Enum",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(eq(var_machine_mode, 1), 'AUTOMATIC').elif(eq(var_machine_mode, 2), 'MAINTENANCE', if(eq(var_machine_mode, 3), 'MANUAL', none))",
-                            variables: [
-                                {
-                                    name: "var_machine_mode",
-                                    value: {
-                                        propertyLogicalId: "MachineMode",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
-                {
-                    dataType: "STRING",
-                    logicalId: "MachineStateEnum",
-                    name: "Machine State Enum",
-                    type: {
-                        typeName: "Transform",
-                        transform: {
-                            expression:
-                                "if(var_machine_state_producing, 'PRODUCING').elif(var_machine_state_idle, 'IDLE').elif(var_machine_state_starved, 'STARVED').elif(var_machine_state_blocked, 'BLOCKED').elif(var_machine_state_changeover, 'CHANGEOVER').elif(var_machine_state_stopped, 'STOPPED').elif(var_machine_state_faulted, 'FAULTED', none)",
-                            variables: [
-                                {
-                                    name: "var_machine_state_producing",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumProducing",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_idle",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumIdle",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_starved",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumStarved",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_blocked",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumBlocked",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_changeover",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumChangeover",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_stopped",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumStopped",
-                                    },
-                                },
-                                {
-                                    name: "var_machine_state_faulted",
-                                    value: {
-                                        propertyLogicalId: "MachineStateEnumFaulted",
-                                    },
-                                },
-                            ],
-                        },
-                    }
-                },
+                    sourceLogicalId: "MachineMode",
+                    values: machineModes
+                }),
+                stopCategoryTransform(),
+                ...Object.values(machineAttributeProperties),
+                ...(props.shiftCalendar ? plannedProductionProperties() : []),
+                ...machineOeeMetrics(props.shiftCalendar !== undefined),
+                ...(props.energy ? machineEnergyProperties() : [])
             ]
+        };
+
+        const area_name = props.areaName || "Packaging Area";
+        const site_name = props.siteName || "Bottling Plant";
+
+        // Measurements mapped to the OPC-UA tags of the line, the collector ingests
+        // the tag paths without the data stream prefix
+        const default_alias_prefix = (id: string) => `${line.dataStreamPrefix || ""}/${line.name}/${id}`;
+        const tag_aliases: { [logicalId: string]: string } = {
+            ...machineMeasurementAliases,
+            ...(props.energy ? energyMeasurementAliases : {})
+        };
+        const measurement_aliases: { [logicalId: string]: string } = {
+            ...tag_aliases,
+            ...(props.shiftCalendar ? { PlannedProduction: plannedProductionAlias } : {})
+        };
+        const tag_folders = (aliases: { [logicalId: string]: string }) =>
+            _.uniq(Object.values(aliases).map((alias) => alias.substring(0, alias.lastIndexOf("/"))));
+        const machine_asset_definitions: AssetDefinition[] = line.machines.map((machine) => {
+            const alias_prefix = machine.aliasPrefix || default_alias_prefix(machine.id);
+            tag_folders(tag_aliases).forEach((folder) => this.opcuaRootPaths.push(`/${line.name}/${machine.id}/${folder}/*`));
+            this.machineTagAliases[machine.id] = Object.values(tag_aliases).map((alias) => `${alias_prefix}/${alias}`);
+            const attributes = machine.attributes || {};
+            if (attributes.ratedSpeed !== undefined && attributes.ratedSpeed <= 0) {
+                throw new Error(`Rated speed of machine ${machine.id} must be greater than 0`);
+            }
+            const attribute_values: { [propertyName: string]: string | number } = {};
+            (Object.keys(machineAttributeProperties) as (keyof MachineAttributes)[]).forEach((key) => {
+                const value = attributes[key];
+                if (value !== undefined) {
+                    attribute_values[machineAttributeProperties[key].name] = value;
+                }
+            });
+            return {
+                logicalId: machine.name.replace(/\s/g, ""),
+                name: machine.name,
+                assetModel: machine_model_definition.logicalId,
+                properties: assetProperties(
+                    machine.name,
+                    machine_model_definition.properties || [],
+                    _.mapValues(measurement_aliases, (alias) => `${alias_prefix}/${alias}`),
+                    machine.notifiedProperties || line.notifiedProperties || []
+                ),
+                attributes: Object.keys(attribute_values).length > 0 ? attribute_values : undefined
+            };
         });
 
-        const machines = [
-            {
-                id: "UN01",
-                name: "Washing Machine",
-            },
-            {
-                id: "UN02",
-                name: "Filling Machine",
-            },
-            {
-                id: "UN03",
-                name: "Capping Machine",
-            },
-            {
-                id: "UN04",
-                name: "Labelling Machine",
-            },
-            {
-                id: "UN05",
-                name: "Case Packing Machine",
-            },
+        // Inspection stations sit next to the machines under the line
+        const station_asset_definitions: AssetDefinition[] = (line.inspectionStations || []).map((station) => {
+            const alias_prefix = station.aliasPrefix || default_alias_prefix(station.id);
+            const tags = station.defectTypes || defectTypes.map((defect) => defect.tag);
+            const unknown_tags = tags.filter((tag) => !defectTypes.some((defect) => defect.tag === tag));
+            if (unknown_tags.length > 0) {
+                throw new Error(`Unknown defect types ${unknown_tags.join(", ")} for inspection station ${station.id}`);
+            }
+            const station_aliases = inspectionMeasurementAliases(tags);
+            tag_folders(station_aliases).forEach((folder) => this.opcuaRootPaths.push(`/${line.name}/${station.id}/${folder}/*`));
+            return {
+                logicalId: station.name.replace(/\s/g, ""),
+                name: station.name,
+                assetModel: "InspectionStationModel",
+                properties: assetProperties(
+                    station.name,
+                    inspectionStationProperties(),
+                    _.mapValues(station_aliases, (alias) => `${alias_prefix}/${alias}`),
+                    station.notifiedProperties || []
+                )
+            };
+        });
+        const station_model_definitions: AssetModelDefinition[] = station_asset_definitions.length === 0 ? [] : [
             {
-                id: "UN06",
-                name: "Palletizing Machine",
-            },
+                logicalId: "InspectionStationModel",
+                name: "Inspection Station Model",
+                description: "Asset model for a quality inspection station rejecting defective bottles.",
+                properties: inspectionStationProperties()
+            }
         ];
 
-        const machine_assets = machines.map(machine=> new sitewise.CfnAsset(this, machine.name.replace(/\s/g, ""), {
+        // Line, area and site models, each one a parent of the level below,
+        // then the assets associated with their parent
+        this.modelDefinition = {
+            assetModels: [
+                machine_model_definition,
+                ...station_model_definitions,
+                {
+                    logicalId: "LineModel",
+                    name: "Line Model",
+                    description: "Asset model for a production line made of machines.",
+                    properties: lineOeeMetrics("Machines"),
+                    hierarchies: [
+                        { logicalId: "Machines", name: "Machines", childAssetModel: "GenericMachineModel" },
+                        ...(station_model_definitions.length === 0 ? [] : [
+                            { logicalId: "InspectionStations", name: "Inspection Stations", childAssetModel: "InspectionStationModel" }
+                        ])
+                    ]
+                },
+                {
+                    logicalId: "AreaModel",
+                    name: "Area Model",
+                    description: "Asset model for a plant area made of production lines.",
+                    hierarchies: [
+                        { logicalId: "Lines", name: "Lines", childAssetModel: "LineModel" }
+                    ]
+                },
+                {
+                    logicalId: "SiteModel",
+                    name: "Site Model",
+                    description: "Asset model for a plant site made of areas.",
+                    hierarchies: [
+                        { logicalId: "Areas", name: "Areas", childAssetModel: "AreaModel" }
+                    ]
+                }
+            ],
+            assets: [
+                ...machine_asset_definitions,
+                ...station_asset_definitions,
+                {
+                    logicalId: "LineAsset",
+                    name: line.name,
+                    assetModel: "LineModel",
+                    hierarchies: [
+                        ...machine_asset_definitions.map((machine_asset) => ({
+                            logicalId: "Machines",
+                            childAsset: machine_asset.logicalId
+                        })),
+                        ...station_asset_definitions.map((station_asset) => ({
+                            logicalId: "InspectionStations",
+                            childAsset: station_asset.logicalId
+                        }))
+                    ]
+                },
+                {
+                    logicalId: "AreaAsset",
+                    name: area_name,
+                    assetModel: "AreaModel",
+                    hierarchies: [{ logicalId: "Lines", childAsset: "LineAsset" }]
+                },
+                {
+                    logicalId: "SiteAsset",
+                    name: site_name,
+                    assetModel: "SiteModel",
+                    hierarchies: [{ logicalId: "Areas", childAsset: "AreaAsset" }]
+                }
+            ]
+        };
+        const resources = createSitewiseModel(this, this.modelDefinition);
+        const machine_model = resources.assetModels.GenericMachineModel;
+
+        if (alarms.length > 0) {
+            // Alarm composite models point to the alarm models of this stack, they
+            // are added to the machine model outside of the model definition
+            machine_model.assetModelCompositeModels = alarms.map((alarm) => alarmCompositeModel(alarm, alarmModelArn(alarm)));
+
+            // Resolve the ids of the watched and alarm state properties
+            let properties: { [key: string]: { propertyName: string, compositeModelName?: string } } = {};
+            alarms.forEach((alarm) => {
+                properties[`${alarm.logicalId}Input`] = { propertyName: alarm.propertyName };
+                properties[`${alarm.logicalId}State`] = { propertyName: "AWS/ALARM_STATE", compositeModelName: alarm.name };
+            });
+            const property_ids = new SitewiseAssetModelPropertyIds(this, "MachineModelPropertyIds", {
                 assetModelId: machine_model.attrAssetModelId,
-                assetName: machine.name,
-                assetProperties: [
-                    {
-                        logicalId: "MachineState",
-                        alias: `/Bottling Line/${machine.id}/Status/StateCurrent`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "MachineMode",
-                        alias: `/Bottling Line/${machine.id}/Status/ModeCurrent`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "CurrentSpeed",
-                        alias: `/Bottling Line/${machine.id}/Status/CurMachSpeed`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "MachineBlocked",
-                        alias: `/Bottling Line/${machine.id}/Status/Blocked`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "MachineStarved",
-                        alias: `/Bottling Line/${machine.id}/Status/Starved`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "StopReason",
-                        alias: `/Bottling Line/${machine.id}/Admin/StopReasonCode`,
-                        notificationState: "DISABLED",
-                    },
-                    {
-                        logicalId: "ProdProcessedCount",
-                        alias: `/Bottling Line/${machine.id}/Admin/ProcessedCount`,
-                        notificationState: "DISABLED",
+                properties: properties
+            });
+
+            // Role for AWS IoT Events to send the alarm state back to AWS IoT SiteWise
+            const alarm_role = new iam.Role(this, "AlarmRole", {
+                assumedBy: new iam.ServicePrincipal("iotevents.amazonaws.com"),
+                description: "Allow AWS IoT Events alarms to update alarm state in AWS IoT SiteWise",
+                inlinePolicies: {
+                    SitewiseAlarmState: new iam.PolicyDocument({
+                        statements: [
+                            new iam.PolicyStatement({
+                                actions: ["iotsitewise:BatchPutAssetPropertyValue"],
+                                resources: ["*"]
+                            })
+                        ]
+                    })
+                }
+            });
+
+            alarms.forEach((alarm) => {
+                const input_property = `$sitewise.assetModel.\`${machine_model.attrAssetModelId}\`.\`${property_ids.getPropertyId(`${alarm.logicalId}Input`)}\``;
+                new iotevents.CfnAlarmModel(this, alarm.logicalId, {
+                    alarmModelName: alarmModelName(alarm),
+                    alarmModelDescription: `${alarm.name} of the ${line.name} machines`,
+                    roleArn: alarm_role.roleArn,
+                    severity: props.alarms?.severity ?? 3,
+                    alarmRule: {
+                        simpleRule: {
+                            inputProperty: `${input_property}.propertyValue.value`,
+                            comparisonOperator: alarm.comparisonOperator,
+                            threshold: alarm.threshold
+                        }
                     },
-                    {
-                        logicalId: "ProdDefectiveCount",
-                        alias: `/Bottling Line/${machine.id}/Admin/DefectiveCount`,
-                        notificationState: "DISABLED",
+                    // Write the alarm state to the alarm composite model of the asset that raised it
+                    alarmEventActions: {
+                        alarmActions: [
+                            {
+                                iotSiteWise: {
+                                    assetId: `\${${input_property}.assetId}`,
+                                    propertyId: `'${property_ids.getPropertyId(`${alarm.logicalId}State`)}'`,
+                                    propertyValue: {
+                                        value: { stringValue: "${$alarmState}" },
+                                        quality: "'GOOD'"
+                                    }
+                                }
+                            }
+                        ]
                     },
-                ]
-            })
-        );
+                    alarmCapabilities: {
+                        acknowledgeFlow: { enabled: true },
+                        initializationConfiguration: { disabledOnInitialization: false }
+                    }
+                });
+                this.alarmModelArns[alarm.logicalId] = alarmModelArn(alarm);
+                this.alarmStatePropertyIds[alarm.logicalId] = property_ids.getPropertyId(`${alarm.logicalId}State`);
+            });
+        }
+
+        // Asset models and assets maintained as data, which may reference the
+        // line models and assets by logical id
+        const all_resources = props.modelFile
+            ? createSitewiseModel(this, readSitewiseModelFile(props.modelFile), resources)
+            : resources;
+
+        // Planned production is written to the machine assets by alias
+        if (props.shiftCalendar) {
+            const planned_production = new SitewisePlannedProduction(this, "PlannedProduction", {
+                calendar: props.shiftCalendar,
+                propertyAliases: line.machines.map((machine) =>
+                    `${machine.aliasPrefix || default_alias_prefix(machine.id)}/${plannedProductionAlias}`
+                )
+            });
+            machine_asset_definitions.forEach((machine_asset) => {
+                planned_production.node.addDependency(resources.assets[machine_asset.logicalId]);
+            });
+        }
+
+        // class public values
+        line.machines.forEach((machine, index) => {
+            this.machineAssetIds[machine.id] = resources.assets[machine_asset_definitions[index].logicalId].attrAssetId;
+        });
+        Object.keys(all_resources.assetModels).forEach((logicalId) => {
+            this.assetModelIds[logicalId] = all_resources.assetModels[logicalId].attrAssetModelId;
+        });
+        Object.keys(all_resources.assets).forEach((logicalId) => {
+            this.assetIds[logicalId] = all_resources.assets[logicalId].attrAssetId;
+        });
+        this.modelDefinition.assetModels
+            .filter((model) => this.modelDefinition.assets.some((asset) =>
+                asset.assetModel === model.logicalId
+                && (asset.properties || []).some((property) => property.notificationState === "ENABLED")
+            ))
+            .forEach((model) => this.notifiedAssetModelIds.push(resources.assetModels[model.logicalId].attrAssetModelId));
+        this.machineAssetModelId = machine_model.attrAssetModelId;
+        this.lineAssetModelId = resources.assetModels.LineModel.attrAssetModelId;
+        this.lineAssetId = resources.assets.LineAsset.attrAssetId;
+        this.areaAssetId = resources.assets.AreaAsset.attrAssetId;
+        this.siteAssetId = resources.assets.SiteAsset.attrAssetId;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,409 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { aws_iotsitewise as sitewise, Tokenization } from "aws-cdk-lib";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+type PropertyType = sitewise.CfnAssetModel.PropertyTypeProperty;
+type ExpressionVariable = sitewise.CfnAssetModel.ExpressionVariableProperty;
+type VariableValue = sitewise.CfnAssetModel.VariableValueProperty;
+
+/**
+ * @summary A value produced by an expression, `null` stands for `none`.
+ */
+export type ExpressionValue = number | string | null;
+
+/**
+ * @summary A node of a parsed AWS IoT SiteWise expression.
+ */
+export type ExpressionNode =
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "none" }
+    | { kind: "variable"; name: string }
+    | { kind: "negate"; operand: ExpressionNode }
+    | { kind: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: "call"; name: string; args: ExpressionNode[] };
+
+// Functions available to transforms and the number of arguments they take
+const transformFunctions: { [name: string]: [number, number] } = {
+    if: [2, 3],
+    eq: [2, 2],
+    gt: [2, 2],
+    gte: [2, 2],
+    lt: [2, 2],
+    lte: [2, 2]
+};
+
+// Metrics may also aggregate their variables over the metric window
+const metricFunctions: { [name: string]: [number, number] } = {
+    ...transformFunctions,
+    avg: [1, 1],
+    count: [1, 1],
+    max: [1, 1],
+    min: [1, 1],
+    stdev: [1, 1],
+    sum: [1, 1],
+    statetime: [1, 1]
+};
+
+const tokenPattern = /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|'([^']*)'|"([^"]*)"|([A-Za-z_][A-Za-z0-9_]*)|(\S))/y;
+
+interface Token {
+    kind: "number" | "string" | "identifier" | "symbol" | "end";
+    text: string;
+    position: number;
+}
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    tokenPattern.lastIndex = 0;
+    while (tokenPattern.lastIndex < expression.length) {
+        const position = tokenPattern.lastIndex;
+        const match = tokenPattern.exec(expression);
+        if (match === null) {
+            // Only trailing whitespace left
+            break;
+        }
+        const [, number, single_quoted, double_quoted, identifier, symbol] = match;
+        if (number !== undefined) {
+            tokens.push({ kind: "number", text: number, position });
+        } else if (single_quoted !== undefined || double_quoted !== undefined) {
+            tokens.push({ kind: "string", text: single_quoted ?? double_quoted, position });
+        } else if (identifier !== undefined) {
+            tokens.push({ kind: "identifier", text: identifier, position });
+        } else if ("()+-*/%,.".includes(symbol)) {
+            tokens.push({ kind: "symbol", text: symbol, position });
+        } else {
+            throw new Error(`Unexpected character '${symbol}' at position ${position} in expression: ${expression}`);
+        }
+    }
+    tokens.push({ kind: "end", text: "", position: expression.length });
+    return tokens;
+};
+
+/**
+ * Parse an AWS IoT SiteWise expression made of numbers, strings, `none`,
+ * variables, function calls, `.elif()` chains and the `+ - * / %` operators.
+ * An `if(a, b).elif(c, d, e)` chain is parsed as `if(a, b, if(c, d, e))`.
+ */
+export const parseExpression = (expression: string): ExpressionNode => {
+    const tokens = tokenize(expression);
+    let index = 0;
+
+    const fail = (message: string): never => {
+        throw new Error(`${message} at position ${tokens[index].position} in expression: ${expression}`);
+    };
+    const peek = (text: string) => tokens[index].kind === "symbol" && tokens[index].text === text;
+    const expect = (text: string) => {
+        if (!peek(text)) {
+            fail(`Expected '${text}'`);
+        }
+        index++;
+    };
+
+    const parseArguments = (): ExpressionNode[] => {
+        const args: ExpressionNode[] = [];
+        expect("(");
+        if (!peek(")")) {
+            args.push(parseAdditive());
+            while (peek(",")) {
+                index++;
+                args.push(parseAdditive());
+            }
+        }
+        expect(")");
+        return args;
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[index];
+        switch (token.kind) {
+            case "number":
+                index++;
+                return { kind: "number", value: Number(token.text) };
+            case "string":
+                index++;
+                return { kind: "string", value: token.text };
+            case "identifier":
+                index++;
+                if (peek("(")) {
+                    return { kind: "call", name: token.text, args: parseArguments() };
+                }
+                return token.text === "none" ? { kind: "none" } : { kind: "variable", name: token.text };
+            default:
+                if (peek("(")) {
+                    index++;
+                    const inner = parseAdditive();
+                    expect(")");
+                    return inner;
+                }
+                return fail(token.kind === "end" ? "Unexpected end of expression" : `Unexpected '${token.text}'`);
+        }
+    };
+
+    const parsePostfix = (): ExpressionNode => {
+        const node = parsePrimary();
+        // Each .elif() becomes the missing else branch of the innermost if()
+        let open_if = node.kind === "call" && node.name === "if" && node.args.length === 2 ? node : undefined;
+        while (peek(".")) {
+            index++;
+            if (tokens[index].kind !== "identifier" || tokens[index].text !== "elif") {
+                fail("Expected 'elif'");
+            }
+            if (open_if === undefined || open_if.kind !== "call") {
+                return fail("Unexpected 'elif' after a complete if()");
+            }
+            index++;
+            const branch: ExpressionNode = { kind: "call", name: "if", args: parseArguments() };
+            open_if.args.push(branch);
+            open_if = branch.kind === "call" && branch.args.length === 2 ? branch : undefined;
+        }
+        return node;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (peek("-")) {
+            index++;
+            return { kind: "negate", operand: parseUnary() };
+        }
+        return parsePostfix();
+    };
+
+    const parseMultiplicative = (): ExpressionNode => {
+        let node = parseUnary();
+        while (peek("*") || peek("/") || peek("%")) {
+            const operator = tokens[index++].text;
+            node = { kind: "binary", operator, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseAdditive = (): ExpressionNode => {
+        let node = parseMultiplicative();
+        while (peek("+") || peek("-")) {
+            const operator = tokens[index++].text;
+            node = { kind: "binary", operator, left: node, right: parseMultiplicative() };
+        }
+        return node;
+    };
+
+    const root = parseAdditive();
+    if (tokens[index].kind !== "end") {
+        fail(`Unexpected '${tokens[index].text}'`);
+    }
+    return root;
+};
+
+const toNumber = (value: ExpressionValue, context: string): number => {
+    if (typeof value !== "number") {
+        throw new Error(`Expected a number for ${context}, got ${JSON.stringify(value)}`);
+    }
+    return value;
+};
+
+/**
+ * Evaluate a transform expression for the given variable values. Comparison
+ * functions return 1 or 0, like AWS IoT SiteWise does, and any value other
+ * than 0, `none` or an empty string is true for `if()`.
+ */
+export const evaluateExpression = (
+    expression: string | ExpressionNode,
+    variables: { [name: string]: ExpressionValue | boolean }
+): ExpressionValue => {
+    const evaluate = (node: ExpressionNode): ExpressionValue => {
+        switch (node.kind) {
+            case "number":
+            case "string":
+                return node.value;
+            case "none":
+                return null;
+            case "variable": {
+                if (!(node.name in variables)) {
+                    throw new Error(`No value for variable ${node.name}`);
+                }
+                const value = variables[node.name];
+                return typeof value === "boolean" ? Number(value) : value;
+            }
+            case "negate":
+                return -toNumber(evaluate(node.operand), "-");
+            case "binary": {
+                const left = toNumber(evaluate(node.left), node.operator);
+                const right = toNumber(evaluate(node.right), node.operator);
+                switch (node.operator) {
+                    case "+": return left + right;
+                    case "-": return left - right;
+                    case "*": return left * right;
+                    case "/": return left / right;
+                    default: return left % right;
+                }
+            }
+            case "call": {
+                const args = node.args;
+                switch (node.name) {
+                    case "if": {
+                        const condition = evaluate(args[0]);
+                        const is_true = condition !== null && condition !== 0 && condition !== "";
+                        return is_true ? evaluate(args[1]) : (args.length > 2 ? evaluate(args[2]) : null);
+                    }
+                    case "eq":
+                        return evaluate(args[0]) === evaluate(args[1]) ? 1 : 0;
+                    case "gt":
+                        return toNumber(evaluate(args[0]), "gt") > toNumber(evaluate(args[1]), "gt") ? 1 : 0;
+                    case "gte":
+                        return toNumber(evaluate(args[0]), "gte") >= toNumber(evaluate(args[1]), "gte") ? 1 : 0;
+                    case "lt":
+                        return toNumber(evaluate(args[0]), "lt") < toNumber(evaluate(args[1]), "lt") ? 1 : 0;
+                    case "lte":
+                        return toNumber(evaluate(args[0]), "lte") <= toNumber(evaluate(args[1]), "lte") ? 1 : 0;
+                    default:
+                        throw new Error(`Function ${node.name}() can not be evaluated`);
+                }
+            }
+        }
+    };
+
+    return evaluate(typeof expression === "string" ? parseExpression(expression) : expression);
+};
+
+const collect = (node: ExpressionNode, variables: Set<string>, calls: ExpressionNode[]) => {
+    switch (node.kind) {
+        case "variable":
+            variables.add(node.name);
+            break;
+        case "negate":
+            collect(node.operand, variables, calls);
+            break;
+        case "binary":
+            collect(node.left, variables, calls);
+            collect(node.right, variables, calls);
+            break;
+        case "call":
+            calls.push(node);
+            node.args.forEach((arg) => collect(arg, variables, calls));
+            break;
+        default:
+            break;
+    }
+};
+
+/**
+ * Check the transform and metric expressions of asset model properties:
+ * the expression parses, only uses known functions with the right number of
+ * arguments, only uses declared variables, and each variable refers to a
+ * property of the model. Variables reading from a child hierarchy are not
+ * resolved. Returns the list of errors found.
+ */
+export const validateExpressions = (properties: AssetModelProperty[]): string[] => {
+    const errors: string[] = [];
+    const logical_ids = new Set(properties.map((property) => property.logicalId));
+
+    properties.forEach((property) => {
+        if (Tokenization.isResolvable(property.type)) {
+            return;
+        }
+        const type = property.type as PropertyType;
+        const definition = type.typeName === "Transform" ? type.transform : type.typeName === "Metric" ? type.metric : undefined;
+        if (definition === undefined || Tokenization.isResolvable(definition)) {
+            return;
+        }
+        const { expression, variables } = definition as { expression: string; variables: ExpressionVariable[] };
+        const functions = type.typeName === "Transform" ? transformFunctions : metricFunctions;
+        const prefix = `${type.typeName} ${property.logicalId}`;
+
+        let root: ExpressionNode;
+        try {
+            root = parseExpression(expression);
+        } catch (error) {
+            errors.push(`${prefix}: ${(error as Error).message}`);
+            return;
+        }
+
+        const used = new Set<string>();
+        const calls: ExpressionNode[] = [];
+        collect(root, used, calls);
+
+        calls.forEach((call) => {
+            if (call.kind !== "call") {
+                return;
+            }
+            const arity = functions[call.name];
+            if (arity === undefined) {
+                errors.push(`${prefix}: Unknown function ${call.name}() in expression: ${expression}`);
+            } else if (call.args.length < arity[0] || call.args.length > arity[1]) {
+                errors.push(`${prefix}: Function ${call.name}() takes ${arity.join(" to ")} arguments, got ${call.args.length} in expression: ${expression}`);
+            }
+        });
+
+        const declared = new Map<string, VariableValue>();
+        variables.forEach((variable) => declared.set(variable.name, variable.value as VariableValue));
+        used.forEach((name) => {
+            if (!declared.has(name)) {
+                errors.push(`${prefix}: Variable ${name} is not declared for expression: ${expression}`);
+            }
+        });
+        declared.forEach((value, name) => {
+            if (value.hierarchyLogicalId === undefined && !logical_ids.has(value.propertyLogicalId)) {
+                errors.push(`${prefix}: Variable ${name} refers to unknown property ${value.propertyLogicalId}`);
+            }
+        });
+    });
+
+    return errors;
+};
+
+/**
+ * Evaluate all the transforms of an asset model for the given measurement and
+ * attribute values, keyed by property logical id. Transforms may use other
+ * transforms as input. Returns the input values along with the transform outputs.
+ */
+export const evaluateTransforms = (
+    properties: AssetModelProperty[],
+    inputs: { [logicalId: string]: ExpressionValue | boolean }
+): { [logicalId: string]: ExpressionValue | boolean } => {
+    const transforms = new Map<string, { expression: string; variables: ExpressionVariable[] }>();
+    properties.forEach((property) => {
+        const type = property.type as PropertyType;
+        if (type.typeName === "Transform") {
+            transforms.set(property.logicalId, type.transform as { expression: string; variables: ExpressionVariable[] });
+        }
+    });
+
+    const values: { [logicalId: string]: ExpressionValue | boolean } = { ...inputs };
+    const resolve = (logicalId: string, path: string[]): ExpressionValue | boolean => {
+        if (logicalId in values) {
+            return values[logicalId];
+        }
+        const transform = transforms.get(logicalId);
+        if (transform === undefined) {
+            throw new Error(`No value for property ${logicalId}`);
+        }
+        if (path.includes(logicalId)) {
+            throw new Error(`Circular transforms: ${[...path, logicalId].join(" -> ")}`);
+        }
+        const variables: { [name: string]: ExpressionValue | boolean } = {};
+        transform.variables.forEach((variable) => {
+            variables[variable.name] = resolve((variable.value as VariableValue).propertyLogicalId, [...path, logicalId]);
+        });
+        values[logicalId] = evaluateExpression(transform.expression, variables);
+        return values[logicalId];
+    };
+
+    transforms.forEach((transform, logicalId) => resolve(logicalId, []));
+    return values;
+};
@@ -0,0 +1,307 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+import { Construct } from "constructs";
+import * as yaml from "yaml";
+
+import { SitewiseAssetAttributes } from "../sitewise-asset-attributes/sitewise-asset-attributes";
+import { validateExpressions } from "./sitewise-expression";
+
+/**
+ * @summary A hierarchy of an asset model, referencing the child asset model by logical id.
+ */
+export interface AssetModelHierarchyDefinition {
+    /**
+     * Logical id of the hierarchy, used by assets and metric variables.
+     *
+     * @default - None
+     */
+    readonly logicalId: string;
+
+    /**
+     * Name of the hierarchy.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Logical id of the child asset model.
+     *
+     * @default - None
+     */
+    readonly childAssetModel: string;
+}
+
+/**
+ * @summary An asset model of a model file.
+ */
+export interface AssetModelDefinition {
+    /**
+     * Logical id of the asset model, also used as the construct id.
+     *
+     * @default - None
+     */
+    readonly logicalId: string;
+
+    /**
+     * Name of the asset model.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Optional description of the asset model.
+     *
+     * @default - None
+     */
+    readonly description?: string;
+
+    /**
+     * Optional properties of the asset model, in the AWS CloudFormation format.
+     *
+     * @default - None
+     */
+    readonly properties?: sitewise.CfnAssetModel.AssetModelPropertyProperty[];
+
+    /**
+     * Optional hierarchies of the asset model.
+     *
+     * @default - None
+     */
+    readonly hierarchies?: AssetModelHierarchyDefinition[];
+}
+
+/**
+ * @summary An association of an asset, referencing the child asset by logical id.
+ */
+export interface AssetHierarchyDefinition {
+    /**
+     * Logical id of the asset model hierarchy.
+     *
+     * @default - None
+     */
+    readonly logicalId: string;
+
+    /**
+     * Logical id of the child asset.
+     *
+     * @default - None
+     */
+    readonly childAsset: string;
+}
+
+/**
+ * @summary An asset of a model file.
+ */
+export interface AssetDefinition {
+    /**
+     * Logical id of the asset, also used as the construct id.
+     *
+     * @default - None
+     */
+    readonly logicalId: string;
+
+    /**
+     * Name of the asset.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Logical id of the asset model of the asset.
+     *
+     * @default - None
+     */
+    readonly assetModel: string;
+
+    /**
+     * Optional property aliases and notification states, in the AWS CloudFormation format.
+     *
+     * @default - None
+     */
+    readonly properties?: sitewise.CfnAsset.AssetPropertyProperty[];
+
+    /**
+     * Optional child assets of the asset.
+     *
+     * @default - None
+     */
+    readonly hierarchies?: AssetHierarchyDefinition[];
+
+    /**
+     * Optional attribute values, keyed by attribute property name.
+     *
+     * @default - None, the asset model default values are used
+     */
+    readonly attributes?: { [propertyName: string]: string | number | boolean };
+}
+
+/**
+ * @summary The content of a model file, asset models and assets as data.
+ */
+export interface SitewiseModelDefinition {
+    /**
+     * Asset models to create.
+     *
+     * @default - None
+     */
+    readonly assetModels: AssetModelDefinition[];
+
+    /**
+     * Assets to create.
+     *
+     * @default - None
+     */
+    readonly assets: AssetDefinition[];
+}
+
+/**
+ * @summary The resources created for a model definition, keyed by logical id.
+ */
+export interface SitewiseModelResources {
+    readonly assetModels: { [logicalId: string]: sitewise.CfnAssetModel };
+    readonly assets: { [logicalId: string]: sitewise.CfnAsset };
+}
+
+// Model files ending in `.yaml` or `.yml` are YAML formatted, others JSON formatted
+const isYamlFile = (filePath: string) => [".yaml", ".yml"].includes(path.extname(filePath).toLowerCase());
+
+/**
+ * Read a model file, YAML formatted for a `.yaml` or `.yml` file and JSON
+ * formatted otherwise.
+ */
+export const readSitewiseModelFile = (filePath: string): SitewiseModelDefinition => {
+    const content = fs.readFileSync(filePath, "utf-8");
+    const definition = isYamlFile(filePath) ? yaml.parse(content) : JSON.parse(content);
+    if (!Array.isArray(definition.assetModels) || !Array.isArray(definition.assets)) {
+        throw new Error(`Model file ${filePath} must have "assetModels" and "assets" lists`);
+    }
+    return definition;
+};
+
+/**
+ * Write a model definition to a model file, YAML formatted for a `.yaml` or
+ * `.yml` file and JSON formatted otherwise.
+ */
+export const writeSitewiseModelFile = (filePath: string, definition: SitewiseModelDefinition) => {
+    fs.writeFileSync(filePath, isYamlFile(filePath)
+        ? yaml.stringify(definition)
+        : `${JSON.stringify(definition, null, 4)}\n`
+    );
+};
+
+/**
+ * Create the asset models and assets of a model definition in `scope`. Child
+ * asset models and assets are created before their parents, which may also
+ * reference resources created from another definition through `existing`.
+ * Transform and metric expressions are validated when the app is synthesized.
+ */
+export const createSitewiseModel = (
+    scope: Construct,
+    definition: SitewiseModelDefinition,
+    existing?: SitewiseModelResources
+): SitewiseModelResources => {
+    const resources: SitewiseModelResources = {
+        assetModels: { ...existing?.assetModels },
+        assets: { ...existing?.assets }
+    };
+    definition.assetModels.forEach((model) => {
+        if (resources.assetModels[model.logicalId] !== undefined) {
+            throw new Error(`Asset model ${model.logicalId} is already defined`);
+        }
+    });
+    definition.assets.forEach((asset) => {
+        if (resources.assets[asset.logicalId] !== undefined) {
+            throw new Error(`Asset ${asset.logicalId} is already defined`);
+        }
+    });
+
+    const createAssetModel = (logicalId: string, path: string[]): sitewise.CfnAssetModel => {
+        if (resources.assetModels[logicalId] !== undefined) {
+            return resources.assetModels[logicalId];
+        }
+        const model = definition.assetModels.find((candidate) => candidate.logicalId === logicalId);
+        if (model === undefined) {
+            throw new Error(`Asset model ${logicalId} referenced by ${path[path.length - 1]} not found`);
+        }
+        if (path.includes(logicalId)) {
+            throw new Error(`Circular asset model hierarchy: ${[...path, logicalId].join(" -> ")}`);
+        }
+
+        const asset_model = new sitewise.CfnAssetModel(scope, model.logicalId, {
+            assetModelName: model.name,
+            assetModelDescription: model.description,
+            assetModelProperties: model.properties,
+            assetModelHierarchies: model.hierarchies?.map((hierarchy) => ({
+                logicalId: hierarchy.logicalId,
+                name: hierarchy.name,
+                childAssetModelId: createAssetModel(hierarchy.childAssetModel, [...path, logicalId]).attrAssetModelId
+            }))
+        });
+        scope.node.addValidation({
+            validate: () => validateExpressions(
+                (asset_model.assetModelProperties || []) as sitewise.CfnAssetModel.AssetModelPropertyProperty[]
+            ).map((error) => `${model.name}: ${error}`)
+        });
+        resources.assetModels[logicalId] = asset_model;
+        return asset_model;
+    };
+
+    const createAsset = (logicalId: string, path: string[]): sitewise.CfnAsset => {
+        if (resources.assets[logicalId] !== undefined) {
+            return resources.assets[logicalId];
+        }
+        const asset = definition.assets.find((candidate) => candidate.logicalId === logicalId);
+        if (asset === undefined) {
+            throw new Error(`Asset ${logicalId} referenced by ${path[path.length - 1]} not found`);
+        }
+        if (path.includes(logicalId)) {
+            throw new Error(`Circular asset hierarchy: ${[...path, logicalId].join(" -> ")}`);
+        }
+
+        const cfn_asset = new sitewise.CfnAsset(scope, asset.logicalId, {
+            assetModelId: createAssetModel(asset.assetModel, [asset.logicalId]).attrAssetModelId,
+            assetName: asset.name,
+            assetProperties: asset.properties,
+            assetHierarchies: asset.hierarchies?.map((hierarchy) => ({
+                logicalId: hierarchy.logicalId,
+                childAssetId: createAsset(hierarchy.childAsset, [...path, logicalId]).attrAssetId
+            }))
+        });
+
+        // Attribute values can not be set through AWS CloudFormation
+        if (asset.attributes !== undefined && Object.keys(asset.attributes).length > 0) {
+            new SitewiseAssetAttributes(scope, `${asset.logicalId}Attributes`, {
+                assetId: cfn_asset.attrAssetId,
+                attributes: asset.attributes
+            });
+        }
+        resources.assets[logicalId] = cfn_asset;
+        return cfn_asset;
+    };
+
+    definition.assetModels.forEach((model) => createAssetModel(model.logicalId, []));
+    definition.assets.forEach((asset) => createAsset(asset.logicalId, []));
+    return resources;
+};
@@ -0,0 +1,56 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as _ from "lodash";
+import { aws_iotsitewise as sitewise } from "aws-cdk-lib";
+
+import { enumTransforms } from "./enum-transforms";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+
+export type StopCategory = "PLANNED" | "UNPLANNED";
+
+export interface StopReasonCode {
+    code: number;
+    name: string;
+    category: StopCategory;
+    color: string;
+    description: string;
+}
+
+// Catalog of the machine stop reason codes, shared with the React app. It is
+// the single source for the `Stop Category` transform, the fault codes picked
+// by the Node-RED simulator and the `StopHistory` legend of the dashboard.
+export const stopReasonCodes: StopReasonCode[] = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "..", "..", "..", "assets/stop-reason-codes.json"), "utf8")
+);
+
+/**
+ * Transform mapping the `Machine Stop Reason Code` measurement to the category
+ * of the code in the stop reason code catalog, `NONE` when the code is unknown
+ * or the machine is not stopped.
+ */
+export const stopCategoryTransform = (): AssetModelProperty => enumTransforms({
+    logicalId: "StopCategory",
+    name: "Stop Category",
+    sourceLogicalId: "StopReason",
+    values: _.fromPairs(stopReasonCodes.map((code) => [code.code, code.category])),
+    otherwise: "NONE"
+})[0];
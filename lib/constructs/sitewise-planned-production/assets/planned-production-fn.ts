@@ -0,0 +1,59 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+import {
+    BatchPutAssetPropertyValueCommand,
+    IoTSiteWiseClient
+} from "@aws-sdk/client-iotsitewise";
+
+import { isPlannedProduction, ShiftCalendar } from "../../sitewise-assets/shift-calendar";
+
+const sitewiseClient = new IoTSiteWiseClient({ maxAttempts: 10, defaultsMode: "standard"});
+
+// BatchPutAssetPropertyValue accepts up to 10 entries per request
+const maxEntries = 10;
+
+// Invoked on a schedule, stores 1 when production is planned and 0 otherwise
+export const handler = async () => {
+    const calendar: ShiftCalendar = JSON.parse(process.env.SHIFT_CALENDAR || "{}");
+    const propertyAliases: string[] = JSON.parse(process.env.PROPERTY_ALIASES || "[]");
+
+    const now = new Date();
+    const plannedProduction = isPlannedProduction(calendar, now) ? 1 : 0;
+    console.info(`Planned production at ${now.toISOString()}: ${plannedProduction}`);
+
+    for (let i = 0; i < propertyAliases.length; i += maxEntries) {
+        const response = await sitewiseClient.send(new BatchPutAssetPropertyValueCommand({
+            entries: propertyAliases.slice(i, i + maxEntries).map((propertyAlias, index) => ({
+                entryId: `${i + index}`,
+                propertyAlias: propertyAlias,
+                propertyValues: [
+                    {
+                        value: { doubleValue: plannedProduction },
+                        timestamp: { timeInSeconds: Math.floor(now.getTime() / 1000) },
+                        quality: "GOOD"
+                    }
+                ]
+            }))
+        }));
+        if (response.errorEntries && response.errorEntries.length > 0) {
+            throw new Error(`Error storing planned production: ${JSON.stringify(response.errorEntries)}`);
+        }
+    }
+
+    return { plannedProduction: plannedProduction };
+};
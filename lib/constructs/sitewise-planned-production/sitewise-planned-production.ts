@@ -0,0 +1,108 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+import * as path from "path";
+import {
+    Duration,
+    aws_events as events,
+    aws_events_targets as targets,
+    aws_iam as iam,
+    aws_logs as logs,
+} from "aws-cdk-lib";
+import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
+import { Construct } from "constructs";
+
+import { ShiftCalendar } from "../sitewise-assets/shift-calendar";
+
+/**
+ * @summary The properties for the SitewisePlannedProduction class.
+ */
+export interface SitewisePlannedProductionProps {
+    /**
+     * Shift calendar of the line.
+     *
+     * @default - None
+     */
+    readonly calendar: ShiftCalendar;
+
+    /**
+     * Aliases of the `Planned Production` measurements to update.
+     *
+     * @default - None
+     */
+    readonly propertyAliases: string[];
+
+    /**
+     * Optional interval between two updates of the measurements.
+     *
+     * @default - 1 minute
+     */
+    readonly interval?: Duration;
+}
+
+/**
+ * This construct evaluates a shift calendar on a schedule and stores whether
+ * production is planned, 1 or 0, in AWS IoT SiteWise measurements. Metrics
+ * such as the OEE availability use the measurement to leave out the time the
+ * line is not planned to produce.
+ *
+ * @summary Store the planned production of a shift calendar in AWS IoT SiteWise.
+ */
+
+/**
+ * @summary The SitewisePlannedProduction class.
+ */
+export class SitewisePlannedProduction extends Construct {
+    public readonly functionArn: string;
+
+    /**
+     *
+     * @summary Constructs a new instance of the SitewisePlannedProduction class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SitewisePlannedProductionProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SitewisePlannedProductionProps) {
+        super(scope, id);
+
+        const planned_production_fn = new NodejsFunction(this, "PlannedProductionFunction", {
+            entry: path.join(__dirname, "assets/planned-production-fn.ts"),
+            timeout: Duration.minutes(1),
+            logRetention: logs.RetentionDays.ONE_MONTH,
+            environment: {
+                SHIFT_CALENDAR: JSON.stringify(props.calendar),
+                PROPERTY_ALIASES: JSON.stringify(props.propertyAliases)
+            }
+        });
+        planned_production_fn.addToRolePolicy(
+            new iam.PolicyStatement({
+                actions: ["iotsitewise:BatchPutAssetPropertyValue"],
+                resources: ["*"]
+            })
+        );
+
+        new events.Rule(this, "Schedule", {
+            description: "Update the planned production measurements from the shift calendar",
+            schedule: events.Schedule.rate(props.interval || Duration.minutes(1)),
+            targets: [new targets.LambdaFunction(planned_production_fn)]
+        });
+
+        // class public values
+        this.functionArn = planned_production_fn.functionArn;
+    }
+}
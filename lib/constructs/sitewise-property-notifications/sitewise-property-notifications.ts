@@ -0,0 +1,154 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+import {
+    Fn,
+    Stack,
+    aws_iam as iam,
+    aws_iot as iot,
+    aws_lambda as lambda
+} from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+/**
+ * @summary Where the AWS IoT SiteWise property notifications are routed to,
+ * either an MQTT topic or an AWS Lambda function.
+ */
+export interface PropertyNotificationTarget {
+    /**
+     * Optional MQTT topic to republish the notifications to. Substitution
+     * templates pick parts of the notification topic, e.g. `line/${topic(6)}/${topic(8)}`
+     * for the asset and property ids.
+     *
+     * @default - None
+     */
+    readonly topic?: string;
+
+    /**
+     * Optional ARN of an AWS Lambda function invoked with each notification.
+     *
+     * @default - None
+     */
+    readonly functionArn?: string;
+}
+
+/**
+ * @summary The properties for the SitewisePropertyNotifications class.
+ */
+export interface SitewisePropertyNotificationsProps {
+    /**
+     * Ids of the asset models whose property notifications are routed.
+     *
+     * @default - None
+     */
+    readonly assetModelIds: string[];
+
+    /**
+     * Target of the notifications.
+     *
+     * @default - None
+     */
+    readonly target: PropertyNotificationTarget;
+}
+
+/**
+ * This construct creates an AWS IoT rule for each asset model, selecting the
+ * notifications AWS IoT SiteWise publishes to `$aws/sitewise/asset-models/<asset model id>/assets/+/properties/+`
+ * when the value of a property with notifications enabled is updated, and
+ * routing them to an MQTT topic or an AWS Lambda function.
+ *
+ * @summary Route AWS IoT SiteWise property notifications.
+ */
+
+/**
+ * @summary The SitewisePropertyNotifications class.
+ */
+export class SitewisePropertyNotifications extends Construct {
+    public readonly topicRuleArns: string[];
+
+    /**
+     *
+     * @summary Constructs a new instance of the SitewisePropertyNotifications class.
+     * @param {cdk.App} scope - represents the scope for all the resources.
+     * @param {string} id - this is a scope-unique id.
+     * @param {SitewisePropertyNotificationsProps} props - user provided props for the construct.
+     * @since AWS CDK v2.12.0
+     */
+    constructor(scope: Construct, id: string, props: SitewisePropertyNotificationsProps) {
+        super(scope, id);
+
+        const stack = Stack.of(this);
+        const target = props.target;
+        if ((target.topic === undefined) === (target.functionArn === undefined)) {
+            throw new Error("Property notifications need either a topic or a function ARN as target");
+        }
+
+        const actions: iot.CfnTopicRule.ActionProperty[] = [];
+        if (target.topic !== undefined) {
+            // Role for AWS IoT Core to republish the notifications
+            const republish_role = new iam.Role(this, "RepublishRole", {
+                assumedBy: new iam.ServicePrincipal("iot.amazonaws.com"),
+                description: "Allow AWS IoT rules to republish AWS IoT SiteWise property notifications",
+                inlinePolicies: {
+                    RepublishNotifications: new iam.PolicyDocument({
+                        statements: [
+                            new iam.PolicyStatement({
+                                actions: ["iot:Publish"],
+                                resources: [
+                                    `arn:${Fn.ref("AWS::Partition")}:iot:${Fn.ref("AWS::Region")}:${Fn.ref("AWS::AccountId")}:topic/*`
+                                ]
+                            })
+                        ]
+                    })
+                }
+            });
+            actions.push({
+                republish: {
+                    topic: target.topic,
+                    roleArn: republish_role.roleArn,
+                    qos: 1
+                }
+            });
+        }
+        if (target.functionArn !== undefined) {
+            actions.push({
+                lambda: { functionArn: target.functionArn }
+            });
+        }
+
+        this.topicRuleArns = props.assetModelIds.map((assetModelId, index) => {
+            const topic_rule = new iot.CfnTopicRule(this, `TopicRule${index}`, {
+                topicRulePayload: {
+                    description: `Route the property notifications of the ${stack.stackName} asset models`,
+                    sql: `SELECT * FROM '$aws/sitewise/asset-models/${assetModelId}/assets/+/properties/+'`,
+                    awsIotSqlVersion: "2016-03-23",
+                    ruleDisabled: false,
+                    actions: actions
+                }
+            });
+            if (target.functionArn !== undefined) {
+                new lambda.CfnPermission(this, `FunctionPermission${index}`, {
+                    action: "lambda:InvokeFunction",
+                    functionName: target.functionArn,
+                    principal: "iot.amazonaws.com",
+                    sourceArn: topic_rule.attrArn
+                });
+            }
+            return topic_rule.attrArn;
+        });
+    }
+}
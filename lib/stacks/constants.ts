@@ -16,6 +16,146 @@
  * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
+import { LineDefinition, SitewiseAssetsProps } from "../constructs/sitewise-assets/sitewise-assets";
+import { ShiftCalendar } from "../constructs/sitewise-assets/shift-calendar";
+import { PropertyNotificationTarget } from "../constructs/sitewise-property-notifications/sitewise-property-notifications";
+
+// Bottling line simulated by the Node-RED flow, UN01 to UN06 in process order
+// with the QC01 to QC03 inspection stations after the filling machine
+export const bottlingLine: LineDefinition = {
+    name: "Bottling Line",
+    machines: [
+        {
+            id: "UN01",
+            name: "Washing Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "WM-600",
+                serialNumber: "WM600-1042",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 1"
+            }
+        },
+        {
+            id: "UN02",
+            name: "Filling Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "FM-600",
+                serialNumber: "FM600-0871",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 2"
+            }
+        },
+        {
+            id: "UN03",
+            name: "Capping Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "CM-600",
+                serialNumber: "CM600-0533",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 3"
+            }
+        },
+        {
+            id: "UN04",
+            name: "Labelling Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "LM-600",
+                serialNumber: "LM600-1209",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 4"
+            }
+        },
+        {
+            id: "UN05",
+            name: "Case Packing Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "CP-600",
+                serialNumber: "CP600-0317",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 5"
+            }
+        },
+        {
+            id: "UN06",
+            name: "Palletizing Machine",
+            attributes: {
+                manufacturer: "AnyCompany Machinery",
+                modelNumber: "PM-600",
+                serialNumber: "PM600-0158",
+                commissioningDate: "2021-03-15",
+                ratedSpeed: 60,
+                location: "Hall 1, Station 6"
+            }
+        }
+    ],
+    inspectionStations: [
+        { id: "QC01", name: "Vision Inspection", defectTypes: ["MissingCap", "LabelDefect", "ForeignObject"] },
+        { id: "QC02", name: "Fill Level Check", defectTypes: ["UnderFill", "OverFill"] },
+        { id: "QC03", name: "Leak Tester", defectTypes: ["Leak"] }
+    ],
+    notifiedProperties: ["MachineState", "StopReason"]
+};
+
+// AWS IoT SiteWise asset models and assets created for the bottling line
+export const bottlingLineAssets: SitewiseAssetsProps = {
+    line: bottlingLine,
+    alarms: {
+        currentSpeedThreshold: 10
+    },
+    energy: true
+};
+
+// Example shift calendar of the line, not deployed by default. Set it as the
+// `shiftCalendar` of `bottlingLineAssets` to only count planned production time in the OEE
+export const exampleShiftCalendar: ShiftCalendar = {
+    timeZone: "Europe/Berlin",
+    shifts: [
+        {
+            name: "Early",
+            start: "06:00",
+            end: "14:00",
+            breaks: [{ name: "Lunch", start: "10:00", end: "10:30" }]
+        },
+        {
+            name: "Late",
+            start: "14:00",
+            end: "22:00",
+            breaks: [{ name: "Dinner", start: "18:00", end: "18:30" }]
+        }
+    ],
+    plannedDowntime: [
+        { name: "Annual maintenance", start: "2026-12-24T00:00", end: "2027-01-04T00:00" }
+    ]
+};
+
+// Versions of the AWS IoT Greengrass components deployed to the gateway
+export const greengrassComponentVersions: { [componentName: string]: string } = {
+    "aws.greengrass.Nucleus": "2.5.5",
+    "aws.greengrass.Cli": "2.5.5",
+    "aws.iot.SiteWiseEdgeCollectorOpcua": "2.1.1",
+    "aws.iot.SiteWiseEdgePublisher": "2.1.4",
+    "aws.greengrass.StreamManager": "2.0.14",
+    "aws.greengrass.LocalDebugConsole": "2.2.3",
+    "aws.greengrass.SecretManager": "2.1.0",
+    "aws.iot.SiteWiseEdgeProcessor": "2.1.5"
+};
+
+// Default MQTT topic the property notifications of the line are republished to,
+// per asset and property id, see `propertyNotificationTarget` of the stack
+export const propertyNotificationTarget: PropertyNotificationTarget = {
+    topic: "bottling-line/notifications/${topic(6)}/${topic(8)}"
+};
+
 // Greengrass core minimal policy template
 // NOTE: Additional permissions may be needed for components
 export const greengrassCoreMinimalIoTPolicy = `{
@@ -72,7 +212,7 @@ export AWS_DEFAULT_REGION=$AWS_REGION
 IOT_PRIVATE_KEY=$(aws ssm get-parameter --name $SSM_PARAMETER_PRIVATE_KEY --with-decryption | jq --raw-output '.Parameter.Value')
 IOT_CERTIFICATE_PEM=$(aws ssm get-parameter --name $SSM_PARAMETER_CERTIFICATE_PEM | jq --raw-output '.Parameter.Value')
 
-ENABLE_DATA_PROCESSING_PACK='false'
+ENABLE_DATA_PROCESSING_PACK='<%= dataprocessingpack %>'
 
 VERSION='1.0.82.0'
 
@@ -16,6 +16,7 @@
  * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
+import * as fs from "fs";
 import * as path from "path";
 import * as _ from "lodash";
 import {
@@ -23,25 +24,344 @@ import {
     StackProps,
     CfnOutput,
     aws_ec2 as ec2,
+    aws_elasticloadbalancingv2 as elbv2,
+    aws_elasticloadbalancingv2_targets as elbv2_targets,
     aws_iam as iam,
     aws_iotsitewise as sitewise,
     aws_s3_assets as s3_assets,
-    aws_s3_deployment as s3_deployment
+    aws_s3_deployment as s3_deployment,
+    aws_secretsmanager as secretsmanager,
+    aws_sns as sns,
+    aws_sns_subscriptions as sns_subscriptions,
+    aws_ssm as ssm
 } from "aws-cdk-lib";
 import { Construct } from "constructs";
 
+import { InstanceSchedule, InstanceScheduleDefinition } from "../constructs/instance-schedule/instance-schedule";
 import { IotRoleAlias } from "../constructs/iot-role-alias/iot-role-alias";
 import { IotThingCertPolicy } from "../constructs/iot-thing-cert-policy/iot-thing-cert-policy";
 import { IotThingGroup } from "../constructs/iot-thing-group/iot-thing-group";
+import { OpcuaServerCertificate } from "../constructs/opcua-server-certificate/opcua-server-certificate";
+import { PrivateVpc } from "../constructs/private-vpc/private-vpc";
 import { GreengrassV2Deployment } from "../constructs/greengrass-v2-deployment/greengrass-v2-deployment";
+import { SimulatorMonitoring } from "../constructs/simulator-monitoring/simulator-monitoring";
 import { SitewiseAssets } from "../constructs/sitewise-assets/sitewise-assets";
+import { PropertyNotificationTarget, SitewisePropertyNotifications } from "../constructs/sitewise-property-notifications/sitewise-property-notifications";
+import { defectTypes } from "../constructs/sitewise-assets/inspection-station";
+import { stopReasonCodes } from "../constructs/sitewise-assets/stop-category";
 import * as stackConstants from "./constants"
 
+/**
+ * @summary An OPC-UA server the AWS IoT SiteWise collector reads from, in
+ * addition to the simulator, e.g. a PLC on the plant network.
+ */
+export interface OpcuaSourceDefinition {
+    /**
+     * Unique name of the source.
+     *
+     * @default - None
+     */
+    readonly name: string;
+
+    /**
+     * Endpoint of the OPC-UA server, e.g. `opc.tcp://10.0.1.20:4840`.
+     *
+     * @default - None
+     */
+    readonly endpointUri: string;
+
+    /**
+     * Optional OPC-UA paths of the nodes to ingest, with `*` and `**` wildcards,
+     * e.g. `/Filling Line/**`.
+     *
+     * @default - None, all the nodes are ingested
+     */
+    readonly rootPaths?: string[];
+
+    /**
+     * Optional prefix added to the OPC-UA paths to form the data stream names.
+     *
+     * @default - None
+     */
+    readonly dataStreamPrefix?: string;
+
+    /**
+     * Optional security policy of the connection, e.g. `BASIC256_SHA256`.
+     *
+     * @default - "NONE"
+     */
+    readonly securityPolicy?: string;
+
+    /**
+     * Optional message security mode of the connection, e.g. `SIGN_AND_ENCRYPT`.
+     *
+     * @default - "NONE"
+     */
+    readonly messageSecurityMode?: string;
+
+    /**
+     * Optional ARN of the AWS Secrets Manager secret holding the `username`
+     * and `password` to sign in with.
+     *
+     * @default - None, anonymous access
+     */
+    readonly usernamePasswordSecretArn?: string;
+
+    /**
+     * Optional PEM certificate of the server, the only one the collector trusts.
+     *
+     * @default - None, any server certificate is trusted
+     */
+    readonly serverCertificate?: string;
+}
+
+// Include rule of the collector for the nodes under an OPC-UA path
+const nodeFilterRule = (rootPath: string) => ({
+    action: "INCLUDE",
+    definition: { type: "OpcUaRootPath", rootPath: rootPath }
+});
+
+// Memory per vCPU of the instance classes, in GiB, the burstable T instances
+// have their own sizes
+const memoryPerVcpu: { [instanceClass: string]: number } = { c: 2, m: 4, r: 8 };
+const burstableSizes: { [size: string]: { vcpus: number, memory: number } } = {
+    nano: { vcpus: 2, memory: 0.5 },
+    micro: { vcpus: 2, memory: 1 },
+    small: { vcpus: 2, memory: 2 },
+    medium: { vcpus: 2, memory: 4 },
+    large: { vcpus: 2, memory: 8 },
+    xlarge: { vcpus: 4, memory: 16 },
+    "2xlarge": { vcpus: 8, memory: 32 }
+};
+
+// vCPUs and memory of the C, M, R and T instance types, undefined for the other ones
+const instanceResources = (instanceType: string): { vcpus: number, memory: number } | undefined => {
+    const [family, size] = instanceType.split(".");
+    const instance_class = family.replace(/\d.*$/, "");
+    if (instance_class === "t") {
+        return burstableSizes[size];
+    }
+    const size_match = /^(\d*)xlarge$/.exec(size);
+    const vcpus = size === "medium" ? 1 : size === "large" ? 2 : size_match ? 4 * Number(size_match[1] || 1) : undefined;
+    if (vcpus === undefined || memoryPerVcpu[instance_class] === undefined) {
+        return undefined;
+    }
+    return { vcpus: vcpus, memory: vcpus * memoryPerVcpu[instance_class] };
+};
+
+// Node of the Node-RED flows, the stack only reads the type and sets the
+// environment variables of the tabs and the settings of the OPC-UA server
+interface FlowNode {
+    id: string;
+    type: string;
+    env?: { name: string, value: string, type: string }[];
+    [key: string]: unknown;
+}
+
+/**
+ * @summary The properties for the OpcuaSimulatorStack class.
+ */
+export interface OpcuaSimulatorStackProps extends StackProps {
+    /**
+     * Optional EC2 instance type of the OPC-UA server, e.g. `t3.medium`, or
+     * an AWS Graviton type such as `t4g.small` for an arm64 instance.
+     *
+     * @default - "t3.small"
+     */
+    readonly instanceType?: string;
+
+    /**
+     * Optional AWS Systems Manager parameter holding the Ubuntu AMI id of the
+     * OPC-UA server.
+     *
+     * @default - The Ubuntu 20.04 AMI published by Canonical for the architecture of the instance type
+     */
+    readonly machineImageParameter?: string;
+
+    /**
+     * Optional port Node-RED listens on, behind nginx.
+     *
+     * @default - 1880
+     */
+    readonly nodeRedPort?: number;
+
+    /**
+     * Optional port of the OPC-UA server of the simulator.
+     *
+     * @default - 54845
+     */
+    readonly opcuaPort?: number;
+
+    /**
+     * Optional versions of the AWS IoT Greengrass components deployed to the
+     * gateway, keyed by component name, overriding `greengrassComponentVersions`.
+     *
+     * @default - None
+     */
+    readonly componentVersions?: { [componentName: string]: string };
+
+    /**
+     * Optional lookup options of the VPC the OPC-UA server runs in.
+     *
+     * @default - The default VPC
+     */
+    readonly vpcLookup?: ec2.VpcLookupOptions;
+
+    /**
+     * Optional dedicated VPC for the OPC-UA server instead of the looked up one.
+     * The server runs in a private subnet without a public IP, reaching AWS
+     * services through VPC endpoints. Node-RED and the OPC-UA server are then
+     * only reachable from within the VPC, e.g. with AWS Systems Manager port forwarding.
+     *
+     * @default - false
+     */
+    readonly dedicatedVpc?: boolean;
+
+    /**
+     * Optional IPv4 CIDRs, IPv6 CIDRs and prefix list ids, e.g. `pl-12345678`,
+     * allowed to reach the OPC-UA server.
+     *
+     * @default - None, no inbound access
+     */
+    readonly allowedPeers?: string[];
+
+    /**
+     * Optional inbound access to Node-RED through nginx on port 80.
+     *
+     * @default - true
+     */
+    readonly httpIngress?: boolean;
+
+    /**
+     * Optional inbound access to the OPC-UA server port, the AWS IoT SiteWise
+     * collector of the gateway connects over localhost.
+     *
+     * @default - false
+     */
+    readonly opcuaIngress?: boolean;
+
+    /**
+     * Optional TLS termination for Node-RED, plain HTTP being redirected to HTTPS:
+     * - `none`, plain HTTP only
+     * - `self-signed`, nginx with a self-signed certificate generated at boot
+     * - `alb`, an Application Load Balancer with the `certificateArn` ACM certificate
+     *
+     * @default - "none"
+     */
+    readonly tlsTermination?: "none" | "self-signed" | "alb";
+
+    /**
+     * Optional ARN of the AWS Certificate Manager certificate of the load
+     * balancer, needed with the `alb` TLS termination.
+     *
+     * @default - None
+     */
+    readonly certificateArn?: string;
+
+    /**
+     * Optional security of the OPC-UA connection between the AWS IoT SiteWise
+     * collector and the simulator, set on both sides:
+     * - `none`, no message security and anonymous access
+     * - `basic256sha256`, Basic256Sha256 SignAndEncrypt only, with a server
+     *   certificate generated at boot and a username and password stored in AWS
+     *   Secrets Manager
+     *
+     * The server certificate is published to an AWS Systems Manager parameter and
+     * is the only one the collector trusts, the simulator only trusts the client
+     * certificate of the collector.
+     *
+     * @default - "none"
+     */
+    readonly opcuaSecurity?: "none" | "basic256sha256";
+
+    /**
+     * Optional OPC-UA servers the AWS IoT SiteWise collector reads from in
+     * addition to the simulator.
+     *
+     * @default - None
+     */
+    readonly additionalOpcuaSources?: OpcuaSourceDefinition[];
+
+    /**
+     * Optional order the AWS IoT SiteWise publisher sends buffered data in,
+     * e.g. `TIME_ORDER` for the oldest data first.
+     *
+     * @default - "TIME_ORDER"
+     */
+    readonly publishingOrder?: string;
+
+    /**
+     * Optional maximum time the publisher waits to fill a batch, in seconds.
+     *
+     * @default - None, the publisher default is used
+     */
+    readonly maxBatchWaitTime?: number;
+
+    /**
+     * Optional maximum number of entries the publisher sends in a batch.
+     *
+     * @default - None, the publisher default is used
+     */
+    readonly maxBatchSize?: number;
+
+    /**
+     * Optional AWS IoT SiteWise Edge data processing pack, for edge dashboards
+     * and computation of the asset model transforms and metrics on the gateway.
+     * The pack needs an x86_64 instance type with at least 4 vCPUs and 15 GB of
+     * memory, e.g. `t3.xlarge`, checked for the C, M, R and T instance types, and
+     * the root volume is enlarged to 160 GB.
+     *
+     * @default - false
+     */
+    readonly dataProcessingPack?: boolean;
+
+    /**
+     * Optional number of minutes without data from a machine before its alarm goes off.
+     *
+     * @default - 10
+     */
+    readonly noDataAlarmMinutes?: number;
+
+    /**
+     * Optional email address subscribed to an Amazon SNS topic notified of the alarms.
+     *
+     * @default - None, the alarms only show in the dashboard
+     */
+    readonly alarmEmail?: string;
+
+    /**
+     * Optional schedule starting and stopping the OPC-UA server instance, e.g.
+     * `{ timezone: "Europe/Berlin", startTime: "07:00", stopTime: "19:00" }` for weekdays.
+     * The no data alarms do not notify while the instance is stopped, and outside
+     * of a dedicated VPC the instance keeps its public IP through an Elastic IP.
+     *
+     * @default - None, the instance runs all the time
+     */
+    readonly instanceSchedule?: InstanceScheduleDefinition;
+
+    /**
+     * Optional target of the property notifications enabled in the line
+     * definition, an MQTT topic or an AWS Lambda function.
+     *
+     * @default - `propertyNotificationTarget`, the `bottling-line/notifications` MQTT topics
+     */
+    readonly propertyNotificationTarget?: PropertyNotificationTarget;
+}
+
 export class OpcuaSimulatorStack extends Stack {
-    constructor(scope: Construct, id: string, props?: StackProps) {
+    constructor(scope: Construct, id: string, props: OpcuaSimulatorStackProps = {}) {
         super(scope, id, props);
 
         const stack = Stack.of(this);
+        const node_red_port = props.nodeRedPort ?? 1880;
+        const opcua_port = props.opcuaPort ?? 54845;
+        const component_versions = { ...stackConstants.greengrassComponentVersions, ...props.componentVersions };
+        const tls_termination = props.tlsTermination || "none";
+        const opcua_secure = props.opcuaSecurity === "basic256sha256";
+        const opcua_username = "sitewise";
+        if (tls_termination === "alb" && !props.certificateArn) {
+            throw new Error("A certificate ARN is needed to terminate TLS on a load balancer");
+        }
 
         /**
          * Greengrass V2 resources
@@ -102,32 +422,134 @@ export class OpcuaSimulatorStack extends Stack {
         });
         deployment_group.addThing(iot_thing_cert_policy.thingArn);
         
-        // Create sitewise assets
-        const sitewise_assets = new SitewiseAssets(this, "SitewiseAssets");
+        // Create sitewise assets, along with the ones of an optional model file
+        const sitewise_assets = new SitewiseAssets(this, "SitewiseAssets", {
+            ...stackConstants.bottlingLineAssets,
+            modelFile: this.node.tryGetContext("sitewiseModelFile")
+        });
+
+        // Route the notifications of the properties enabled in the line definition
+        if (sitewise_assets.notifiedAssetModelIds.length > 0) {
+            new SitewisePropertyNotifications(this, "SitewisePropertyNotifications", {
+                assetModelIds: sitewise_assets.notifiedAssetModelIds,
+                target: props.propertyNotificationTarget || stackConstants.propertyNotificationTarget
+            });
+        }
 
         /**
          * OPC-UA Server creation and Greengrass V2 installation
          */
 
-        const vpc = ec2.Vpc.fromLookup(this, "Vpc", {
+        const private_vpc = props.dedicatedVpc
+            ? new PrivateVpc(this, "PrivateVpc", { iotDataEndpointAddress: iot_thing_cert_policy.dataAtsEndpointAddress })
+            : undefined;
+        const vpc = private_vpc ? private_vpc.vpc : ec2.Vpc.fromLookup(this, "Vpc", props.vpcLookup || {
             isDefault: true,
         });
 
         const node_red_settings = new s3_assets.Asset(this, "NodeRedSettings", {
             path: path.join(__dirname, "..", "..", "assets/node-red/settings.js"),
         });
+        // Files rendered for this stack go under its own prefix of the shared
+        // asset bucket, so the stacks of an account do not overwrite each other
+        const rendered_files_prefix = `${stack.stackName}/`;
 
-        const node_red_flows = new s3_assets.Asset(this, "NodeRedFlows", {
-            path: path.join(__dirname, "..", "..", "assets/node-red/flows.json"),
+        // Random Node-RED admin password, only its bcrypt hash is stored on the instance
+        const node_red_password = new secretsmanager.Secret(this, "NodeRedPassword", {
+            description: `Node-RED admin credentials of ${stack.stackName}`,
+            generateSecretString: {
+                secretStringTemplate: JSON.stringify({ username: "admin" }),
+                generateStringKey: "password",
+                excludePunctuation: true,
+                passwordLength: 20
+            }
         });
 
-        const nginx_configuration = new s3_assets.Asset(
-            this,
-            "NginxConfiguration",
-            {
-                path: path.join(__dirname, "..", "..", "assets/nginx/default.conf"),
+        // OPC-UA user of the collector, read by the AWS IoT SiteWise collector through
+        // the Greengrass secret manager and rendered into the simulator flows at init
+        const opcua_credentials = opcua_secure
+            ? new secretsmanager.Secret(this, "OpcuaCredentials", {
+                description: `OPC-UA credentials of the ${stack.stackName} AWS IoT SiteWise collector`,
+                generateSecretString: {
+                    secretStringTemplate: JSON.stringify({ username: opcua_username }),
+                    generateStringKey: "password",
+                    excludePunctuation: true,
+                    passwordLength: 20
+                }
+            })
+            : undefined;
+        // Certificate of the simulator, published by the instance once generated at boot
+        const opcua_certificate_parameter = opcua_secure
+            ? new ssm.StringParameter(this, "OpcuaCertificateParameter", {
+                description: `OPC-UA server certificate of the ${stack.stackName} simulator, published at boot`,
+                stringValue: "NONE"
+            })
+            : undefined;
+        const additional_sources = props.additionalOpcuaSources || [];
+        const source_names = ["Node-Red OPC-UA Server", ...additional_sources.map((source) => source.name)];
+        if (_.uniq(source_names).length !== source_names.length) {
+            throw new Error(`OPC-UA source names must be unique: ${source_names.join(", ")}`);
+        }
+        const collector_secret_arns = [
+            ...(opcua_credentials ? [opcua_credentials.secretArn] : []),
+            ..._.compact(additional_sources.map((source) => source.usernamePasswordSecretArn))
+        ];
+        if (collector_secret_arns.length > 0) {
+            greengrass_role_minimal_policy.addStatements(
+                new iam.PolicyStatement({
+                    effect: iam.Effect.ALLOW,
+                    actions: ["secretsmanager:GetSecretValue"],
+                    resources: collector_secret_arns
+                })
+            );
+        }
+
+        const nginx_template = _.template(fs.readFileSync(path.join(__dirname, "..", "..", "assets/nginx/default.conf"), "utf8"), {
+            interpolate: /<%=([\s\S]+?)%>/g
+        });
+        const nginx_configuration = new s3_deployment.BucketDeployment(this, "NginxConfiguration", {
+            sources: [s3_deployment.Source.data("default.conf", nginx_template({ noderedport: node_red_port, selfsigned: tls_termination === "self-signed" }))],
+            destinationBucket: node_red_settings.bucket,
+            destinationKeyPrefix: rendered_files_prefix,
+            prune: false
+        });
+
+        // Render the Node-RED flows with the stack configuration, passed to the
+        // simulator as environment variables of the flow tab
+        const flows: FlowNode[] = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "..", "assets/node-red/flows.json"), "utf8"));
+        const flow_env: { [name: string]: object } = {
+            STOP_REASON_CODES: stopReasonCodes,
+            INSPECTION_STATIONS: (stackConstants.bottlingLine.inspectionStations || []).map((station) => ({
+                id: station.id,
+                defectTypes: defectTypes.filter((defect) => !station.defectTypes || station.defectTypes.includes(defect.tag))
+            })),
+            // Security of the only endpoint the OPC-UA server keeps, all of them without it
+            OPCUA_SECURITY: opcua_secure ? { securityPolicy: "Basic256Sha256", securityMode: "SignAndEncrypt" } : {}
+        };
+        flows.filter((flow_node) => flow_node.type === "opcua-compact-server").forEach((server) => {
+            server.port = opcua_port;
+            server.allowAnonymous = !opcua_secure;
+            if (opcua_secure) {
+                server.users = [{ name: opcua_username, password: "OPCUA_USER_PASSWORD" }];
+                server.individualCerts = true;
+                server.publicCertificateFile = "/home/ubuntu/.node-red/certs/opcua-server.pem";
+                server.privateCertificateFile = "/home/ubuntu/.node-red/certs/opcua-server.key";
             }
-        );
+        });
+        flows.filter((flow_node) => flow_node.type === "tab").forEach((tab) => {
+            tab.env = Object.keys(flow_env).map((name) => ({
+                name: name,
+                value: JSON.stringify(flow_env[name]),
+                type: "json"
+            }));
+        });
+
+        const node_red_flows = new s3_deployment.BucketDeployment(this, "NodeRedFlows", {
+            sources: [s3_deployment.Source.data("flows.json", JSON.stringify(flows, null, 4))],
+            destinationBucket: node_red_settings.bucket,
+            destinationKeyPrefix: rendered_files_prefix,
+            prune: false
+        });
 
         const scriptTemplate = _.template(stackConstants.greengrassInstallationScript, {
             interpolate: /<%=([\s\S]+?)%>/g
@@ -140,12 +562,14 @@ export class OpcuaSimulatorStack extends Stack {
             iotdataendpoint: iot_thing_cert_policy.dataAtsEndpointAddress,
             iotcredendpoint: iot_thing_cert_policy.credentialProviderEndpointAddress,
             parameterprivatekey: iot_thing_cert_policy.privateKeySecretParameter,
-            parametercertificatepem: iot_thing_cert_policy.certificatePemParameter
+            parametercertificatepem: iot_thing_cert_policy.certificatePemParameter,
+            dataprocessingpack: props.dataProcessingPack ? "true" : "false"
         });
 
         const greengrass_installer_script = new s3_deployment.BucketDeployment(this, "GreengrassInstallerScript", {
             sources: [s3_deployment.Source.data("greengrass-installer.sh", script)],
-            destinationBucket: nginx_configuration.bucket,
+            destinationBucket: node_red_settings.bucket,
+            destinationKeyPrefix: rendered_files_prefix,
             prune: false
         });
 
@@ -157,40 +581,59 @@ export class OpcuaSimulatorStack extends Stack {
             allowAllOutbound: true,
         });
 
-        security_group.addIngressRule(
-            ec2.Peer.anyIpv4(),
-            ec2.Port.tcp(80),
-            "Allow HTTP access from the world"
-        );
-
-        security_group.addIngressRule(
-            ec2.Peer.anyIpv4(),
-            ec2.Port.tcp(443),
-            "Allow AWS IoT SiteWise data endpoint communication"
-        );
-
-        security_group.addIngressRule(
-            ec2.Peer.anyIpv4(),
-            ec2.Port.tcp(8443),
-            "Allow AWS IoT Greengrass endpoints communication"
-        );
-
-        security_group.addIngressRule(
-            ec2.Peer.anyIpv4(),
-            ec2.Port.tcp(8883),
-            "Allow AWS IoT Greengrass endpoints communication"
-        );
+        // Behind a load balancer, Node-RED is only reached through it
+        const load_balancer_security_group = tls_termination === "alb"
+            ? new ec2.SecurityGroup(this, "LoadBalancerSecurityGroup", {
+                vpc,
+                description: "Security group for the Node-RED load balancer created with OpcuaSimulatorStack",
+                allowAllOutbound: true,
+            })
+            : undefined;
+        const web_security_group = load_balancer_security_group || security_group;
+        const web_ports = tls_termination === "none" ? [80] : [80, 443];
 
-        security_group.addIngressRule(
-            ec2.Peer.anyIpv4(),
-            ec2.Port.tcp(54845),
-            "Allow OPC-UA access from the world"
-        );
+        // Greengrass, AWS IoT SiteWise and the other AWS endpoints are only
+        // reached outbound, inbound rules are for the configured peers only
+        const ingress_peers = (props.allowedPeers || []).map((peer) => {
+            if (peer.startsWith("pl-")) {
+                return ec2.Peer.prefixList(peer);
+            }
+            return peer.includes(":") ? ec2.Peer.ipv6(peer) : ec2.Peer.ipv4(peer);
+        });
+        ingress_peers.forEach((peer) => {
+            if (props.httpIngress ?? true) {
+                web_ports.forEach((port) => {
+                    web_security_group.addIngressRule(
+                        peer,
+                        ec2.Port.tcp(port),
+                        port === 443 ? "Allow HTTPS access to Node-RED" : "Allow HTTP access to Node-RED"
+                    );
+                });
+            }
+            if (props.opcuaIngress ?? false) {
+                security_group.addIngressRule(
+                    peer,
+                    ec2.Port.tcp(opcua_port),
+                    "Allow OPC-UA access"
+                );
+            }
+        });
 
-        const instance_type = ec2.InstanceType.of(
-            ec2.InstanceClass.T3,
-            ec2.InstanceSize.SMALL
-        );
+        const instance_type = props.instanceType
+            ? new ec2.InstanceType(props.instanceType)
+            : ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.SMALL);
+        // Name of the instance architecture in the Ubuntu AMI and package paths
+        const ubuntu_architecture = instance_type.architecture === ec2.InstanceArchitecture.ARM_64 ? "arm64" : "amd64";
+        if (props.dataProcessingPack && ubuntu_architecture !== "amd64") {
+            throw new Error(`The data processing pack needs an x86_64 instance type, ${instance_type} is arm64`);
+        }
+        const instance_resources = instanceResources(instance_type.toString());
+        if (props.dataProcessingPack && instance_resources && (instance_resources.vcpus < 4 || instance_resources.memory < 15)) {
+            throw new Error(
+                `The data processing pack needs at least 4 vCPUs and 15 GB of memory, ${instance_type} has ` +
+                `${instance_resources.vcpus} vCPUs and ${instance_resources.memory} GB`
+            );
+        }
 
         const instance_role = new iam.Role(this, "Ec2InstanceRole", {
             roleName: `${stack.stackName}-Instance-Role`,
@@ -198,11 +641,15 @@ export class OpcuaSimulatorStack extends Stack {
         });
 
         instance_role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName("AmazonSSMManagedInstanceCore"));
+        instance_role.addManagedPolicy(iam.ManagedPolicy.fromAwsManagedPolicyName("CloudWatchAgentServerPolicy"));
 
         node_red_settings.grantRead(instance_role);
-        node_red_flows.grantRead(instance_role);
-        nginx_configuration.grantRead(instance_role);
-        greengrass_installer_script.deployedBucket.grantRead(instance_role);
+        node_red_password.grantRead(instance_role);
+        opcua_credentials?.grantRead(instance_role);
+        opcua_certificate_parameter?.grantWrite(instance_role);
+        node_red_flows.deployedBucket.grantRead(instance_role, `${rendered_files_prefix}*`);
+        nginx_configuration.deployedBucket.grantRead(instance_role, `${rendered_files_prefix}*`);
+        greengrass_installer_script.deployedBucket.grantRead(instance_role, `${rendered_files_prefix}*`);
 
         const user_data = ec2.UserData.forLinux({
             shebang: "#!/bin/bash -xe",
@@ -211,7 +658,7 @@ export class OpcuaSimulatorStack extends Stack {
             "apt-get update -y",
             "apt-get install -y git awscli ec2-instance-connect build-essential nginx",
             "cp /etc/nginx/sites-available/default /etc/nginx/sites-available/default.backup",
-            `aws s3 cp ${nginx_configuration.s3ObjectUrl} /etc/nginx/sites-available/default`,
+            `aws s3 cp s3://${nginx_configuration.deployedBucket.bucketName}/${rendered_files_prefix}default.conf /etc/nginx/sites-available/default`,
             'until git clone https://github.com/aws-quickstart/quickstart-linux-utilities.git; do echo "Retrying"; done',
             "cd /quickstart-linux-utilities",
             "source quickstart-cfn-tools.source",
@@ -222,8 +669,22 @@ export class OpcuaSimulatorStack extends Stack {
             "ln -s /usr/local/bin/cfn-* /opt/aws/bin/"
         );
 
+        // Processes watched by the CloudWatch agent, matched on their command line
+        const greengrass_processes: { [componentName: string]: string } = {
+            "aws.greengrass.Nucleus": "Greengrass.jar",
+            "aws.iot.SiteWiseEdgeCollectorOpcua": "aws.iot.SiteWiseEdgeCollectorOpcua",
+            "aws.iot.SiteWiseEdgePublisher": "aws.iot.SiteWiseEdgePublisher",
+            "aws.greengrass.StreamManager": "aws.greengrass.StreamManager",
+            ...(props.dataProcessingPack ? { "aws.iot.SiteWiseEdgeProcessor": "aws.iot.SiteWiseEdgeProcessor" } : {})
+        };
+        const node_red_process = "node-red";
+        // Work folder of the collector, holding the client certificate it generates, and
+        // trusted store of the default certificate manager of the simulator OPC-UA server
+        const opcua_collector_folder = "/greengrass/v2/work/aws.iot.SiteWiseEdgeCollectorOpcua";
+        const opcua_trusted_folder = "/home/ubuntu/.config/node-opcua-default-nodejs/PKI/trusted/certs";
+
         const ubuntu_machine_image = ec2.MachineImage.fromSsmParameter(
-            "/aws/service/canonical/ubuntu/server/focal/stable/current/amd64/hvm/ebs-gp2/ami-id",
+            props.machineImageParameter || `/aws/service/canonical/ubuntu/server/focal/stable/current/${ubuntu_architecture}/hvm/ebs-gp2/ami-id`,
             {
                 cachedInContext: false,
                 os: ec2.OperatingSystemType.LINUX,
@@ -235,15 +696,24 @@ export class OpcuaSimulatorStack extends Stack {
             instanceType: instance_type,
             machineImage: ubuntu_machine_image,
             vpc: vpc,
+            vpcSubnets: private_vpc?.privateSubnets,
             securityGroup: security_group,
             instanceName: `${stack.stackName}-OPC UA Server`,
+            // The data processing pack needs 150 GB of free storage on the root volume
+            blockDevices: props.dataProcessingPack ? [
+                {
+                    deviceName: "/dev/sda1",
+                    volume: ec2.BlockDeviceVolume.ebs(160, { volumeType: ec2.EbsDeviceVolumeType.GP3 })
+                }
+            ] : undefined,
             role: instance_role,
             init: ec2.CloudFormationInit.fromElements(
+                // NodeSource and Ubuntu publish the Node.js and Java packages for amd64 and arm64
                 ec2.InitCommand.shellCommand("curl -fsSL https://deb.nodesource.com/setup_16.x | sudo -E bash -"),
                 ec2.InitCommand.shellCommand("apt install -y nodejs default-jdk jq"),
 
                 // Install Greengrass and dependent requirements
-                ec2.InitFile.fromS3Object('/tmp/greengrass-installer.sh', greengrass_installer_script.deployedBucket, "greengrass-installer.sh"),
+                ec2.InitFile.fromS3Object('/tmp/greengrass-installer.sh', greengrass_installer_script.deployedBucket, `${rendered_files_prefix}greengrass-installer.sh`),
                 ec2.InitCommand.shellCommand("chmod +x /tmp/greengrass-installer.sh"),
                 ec2.InitCommand.shellCommand("sudo -E bash /tmp/greengrass-installer.sh -y -v"),
                 
@@ -251,7 +721,7 @@ export class OpcuaSimulatorStack extends Stack {
                 ec2.InitCommand.shellCommand("npm install -g pm2 opcua-commander"),
                 ec2.InitCommand.shellCommand("pm2 startup -u ubuntu --hp /home/ubuntu"),
                 ec2.InitCommand.shellCommand("npm install -g --unsafe-perm node-red"),
-                ec2.InitCommand.shellCommand("su ubuntu -c 'pm2 start node-red -- --userDir /home/ubuntu/.node-red'"),
+                ec2.InitCommand.shellCommand(`su ubuntu -c 'pm2 start node-red -- --port ${node_red_port} --userDir /home/ubuntu/.node-red'`),
                 ec2.InitCommand.shellCommand(`while [ ! -f /home/ubuntu/.node-red/settings.js ]; do sleep 2; done; sleep 1;`),
                 ec2.InitCommand.shellCommand("su ubuntu -c 'cp settings.js settings.js.backup'", {
                     cwd: "/home/ubuntu/.node-red"
@@ -259,20 +729,115 @@ export class OpcuaSimulatorStack extends Stack {
                 ec2.InitCommand.shellCommand(`su ubuntu -c 'aws s3 cp ${node_red_settings.s3ObjectUrl} settings.js'`, {
                     cwd: "/home/ubuntu/.node-red"
                 }),
-                ec2.InitCommand.shellCommand(`su ubuntu -c 'aws s3 cp ${node_red_flows.s3ObjectUrl} flows.json'`, {
+                ec2.InitCommand.shellCommand(`su ubuntu -c 'aws s3 cp s3://${node_red_flows.deployedBucket.bucketName}/${rendered_files_prefix}flows.json flows.json'`, {
+                    cwd: "/home/ubuntu/.node-red"
+                }),
+                ec2.InitCommand.shellCommand("su ubuntu -c 'npm install lodash traverse node-red-contrib-opcua-server bcryptjs'", {
                     cwd: "/home/ubuntu/.node-red"
                 }),
-                ec2.InitCommand.shellCommand("su ubuntu -c 'npm install lodash traverse node-red-contrib-opcua-server'", {
+                ec2.InitFile.fromString("/tmp/node-red-password.sh", [
+                    "#!/bin/bash -e",
+                    "# Render the bcrypt hash of the Node-RED admin password into settings.js",
+                    `export NODE_RED_PASSWORD=$(aws secretsmanager get-secret-value --region ${stack.region} --secret-id ${node_red_password.secretArn} --query SecretString --output text | jq -r .password)`,
+                    `node -e "const fs = require('fs'); const settings = fs.readFileSync('settings.js', 'utf8'); fs.writeFileSync('settings.js', settings.replace('NODE_RED_ADMIN_PASSWORD_HASH', () => require('bcryptjs').hashSync(process.env.NODE_RED_PASSWORD, 8)))"`
+                ].join("\n")),
+                ec2.InitCommand.shellCommand("su ubuntu -c 'bash /tmp/node-red-password.sh'", {
                     cwd: "/home/ubuntu/.node-red"
                 }),
+                ...(opcua_credentials && opcua_certificate_parameter ? [
+                    ec2.InitFile.fromString("/tmp/opcua-security.sh", [
+                        "#!/bin/bash -e",
+                        "# Generate and publish the OPC-UA server certificate and render the collector password into flows.json",
+                        "mkdir -p certs",
+                        "openssl req -x509 -nodes -days 825 -newkey rsa:2048 -sha256 -subj '/CN=Node-RED OPC-UA Server' " +
+                            "-addext \"subjectAltName=URI:urn:$(hostname):NodeOPCUA-Server,DNS:localhost,DNS:$(hostname)\" " +
+                            "-addext 'keyUsage=critical,digitalSignature,nonRepudiation,keyEncipherment,dataEncipherment' " +
+                            "-addext 'extendedKeyUsage=serverAuth,clientAuth' " +
+                            "-keyout certs/opcua-server.key -out certs/opcua-server.pem",
+                        `aws ssm put-parameter --region ${stack.region} --name ${opcua_certificate_parameter.parameterName} --value file://certs/opcua-server.pem --overwrite`,
+                        `export OPCUA_PASSWORD=$(aws secretsmanager get-secret-value --region ${stack.region} --secret-id ${opcua_credentials.secretArn} --query SecretString --output text | jq -r .password)`,
+                        `node -e "const fs = require('fs'); const flows = fs.readFileSync('flows.json', 'utf8'); fs.writeFileSync('flows.json', flows.replace('OPCUA_USER_PASSWORD', () => process.env.OPCUA_PASSWORD))"`
+                    ].join("\n")),
+                    ec2.InitCommand.shellCommand("su ubuntu -c 'bash /tmp/opcua-security.sh'", {
+                        cwd: "/home/ubuntu/.node-red"
+                    }),
+                    // The collector generates its client certificate once Greengrass deployed it,
+                    // after the initialization, so it is trusted by a service waiting for it
+                    ec2.InitFile.fromString("/usr/local/bin/opcua-trust-collector.sh", [
+                        "#!/bin/bash -e",
+                        "# Add the client certificate of the AWS IoT SiteWise collector to the trusted store of the OPC-UA server",
+                        `COLLECTOR_FOLDER=${opcua_collector_folder}`,
+                        `TRUSTED_FOLDER=${opcua_trusted_folder}`,
+                        "until CERTIFICATE=$(find $COLLECTOR_FOLDER -name '*.der' -not -path '*trusted*' -not -path '*rejected*' -not -path '*issuers*' 2>/dev/null | head -n 1) && [ -n \"$CERTIFICATE\" ]; do sleep 30; done",
+                        "mkdir -p $TRUSTED_FOLDER",
+                        "cp $CERTIFICATE $TRUSTED_FOLDER/sitewise-collector.der",
+                        "chown -R ubuntu:ubuntu /home/ubuntu/.config",
+                        "su ubuntu -c 'pm2 restart node-red'"
+                    ].join("\n"), { mode: "000755" }),
+                    ec2.InitCommand.shellCommand(
+                        `[ -f ${opcua_trusted_folder}/sitewise-collector.der ] || systemd-run --unit opcua-trust-collector /usr/local/bin/opcua-trust-collector.sh`
+                    )
+                ] : []),
                 ec2.InitCommand.shellCommand("su ubuntu -c 'pm2 restart node-red'"),
                 ec2.InitCommand.shellCommand("su ubuntu -c 'pm2 save'"),
+                ...(tls_termination === "self-signed" ? [
+                    ec2.InitCommand.shellCommand(
+                        "openssl req -x509 -nodes -days 825 -newkey rsa:2048 -subj '/CN=node-red' " +
+                        "-keyout /etc/ssl/private/node-red.key -out /etc/ssl/certs/node-red.crt"
+                    )
+                ] : []),
                 ec2.InitCommand.shellCommand("nginx -t"),
                 ec2.InitCommand.shellCommand("service nginx reload"),
-                ec2.InitCommand.shellCommand("service greengrass status")
+                ec2.InitCommand.shellCommand("service greengrass status"),
+
+                // Install the CloudWatch agent collecting the process metrics
+                ec2.InitCommand.shellCommand(
+                    `curl -fsSL -o /tmp/amazon-cloudwatch-agent.deb https://s3.amazonaws.com/amazoncloudwatch-agent/ubuntu/${ubuntu_architecture}/latest/amazon-cloudwatch-agent.deb`
+                ),
+                ec2.InitCommand.shellCommand("dpkg -i -E /tmp/amazon-cloudwatch-agent.deb"),
+                ec2.InitFile.fromObject(
+                    "/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json",
+                    SimulatorMonitoring.agentConfiguration([...Object.values(greengrass_processes), node_red_process])
+                ),
+                ec2.InitCommand.shellCommand(
+                    "/opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a fetch-config -m ec2 -s " +
+                    "-c file:/opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json"
+                )
             ),
         });
 
+        // Terminate TLS on a load balancer in front of nginx, redirecting plain HTTP
+        const load_balancer = load_balancer_security_group
+            ? new elbv2.ApplicationLoadBalancer(this, "LoadBalancer", {
+                vpc: vpc,
+                internetFacing: true,
+                securityGroup: load_balancer_security_group,
+                vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC }
+            })
+            : undefined;
+        if (load_balancer) {
+            const https_listener = load_balancer.addListener("HttpsListener", {
+                port: 443,
+                certificates: [elbv2.ListenerCertificate.fromArn(props.certificateArn as string)],
+                open: false
+            });
+            https_listener.addTargets("NodeRed", {
+                port: 80,
+                targets: [new elbv2_targets.InstanceTarget(opcua_server)],
+                healthCheck: { path: "/" }
+            });
+            load_balancer.addRedirect({ sourcePort: 80, targetPort: 443, open: false });
+            opcua_server.connections.allowFrom(load_balancer, ec2.Port.tcp(80), "Allow HTTP access from the Node-RED load balancer");
+        }
+
+        // Certificate the instance generated for the simulator, trusted by the collector
+        const opcua_server_certificate = opcua_certificate_parameter
+            ? new OpcuaServerCertificate(this, "OpcuaServerCertificate", {
+                parameter: opcua_certificate_parameter,
+                instanceId: opcua_server.instanceId
+            })
+            : undefined;
+
         // Create sitewise gateway
         const sitewise_gateway = new sitewise.CfnGateway(
             this,
@@ -288,28 +853,59 @@ export class OpcuaSimulatorStack extends Stack {
                     {
                         capabilityNamespace: "iotsitewise:opcuacollector:2",
                         capabilityConfiguration: JSON.stringify({
-                            sources: [{
-                                name: "Node-Red OPC-UA Server",
-                                endpoint: {
-                                    certificateTrust: { type: "TrustAny" },
-                                    endpointUri: "opc.tcp://localhost:54845",
-                                    securityPolicy: "NONE",
-                                    messageSecurityMode: "NONE",
-                                    identityProvider: { type: "Anonymous" },
-                                    nodeFilterRules:[]
+                            sources: [
+                                // Only the tags mapped to the line measurements are ingested
+                                {
+                                    name: source_names[0],
+                                    endpoint: {
+                                        certificateTrust: opcua_server_certificate
+                                            ? { type: "CertificateFile", certificateFile: opcua_server_certificate.escapedCertificatePem }
+                                            : { type: "TrustAny" },
+                                        endpointUri: `opc.tcp://localhost:${opcua_port}`,
+                                        securityPolicy: opcua_secure ? "BASIC256_SHA256" : "NONE",
+                                        messageSecurityMode: opcua_secure ? "SIGN_AND_ENCRYPT" : "NONE",
+                                        identityProvider: opcua_credentials
+                                            ? { type: "Username", usernamePasswordSecretArn: opcua_credentials.secretArn }
+                                            : { type: "Anonymous" },
+                                        nodeFilterRules: sitewise_assets.opcuaRootPaths.map(nodeFilterRule)
+                                    },
+                                    measurementDataStreamPrefix: stackConstants.bottlingLine.dataStreamPrefix || ""
                                 },
-                                measurementDataStreamPrefix: ""
-                            }]
+                                ...additional_sources.map((source) => ({
+                                    name: source.name,
+                                    endpoint: {
+                                        certificateTrust: source.serverCertificate
+                                            ? { type: "CertificateFile", certificateFile: source.serverCertificate }
+                                            : { type: "TrustAny" },
+                                        endpointUri: source.endpointUri,
+                                        securityPolicy: source.securityPolicy || "NONE",
+                                        messageSecurityMode: source.messageSecurityMode || "NONE",
+                                        identityProvider: source.usernamePasswordSecretArn
+                                            ? { type: "Username", usernamePasswordSecretArn: source.usernamePasswordSecretArn }
+                                            : { type: "Anonymous" },
+                                        nodeFilterRules: (source.rootPaths || []).map(nodeFilterRule)
+                                    },
+                                    measurementDataStreamPrefix: source.dataStreamPrefix || ""
+                                }))
+                            ]
                         })
                     },
                     {
                         capabilityNamespace: "iotsitewise:publisher:2",
                         capabilityConfiguration: JSON.stringify({
                             SiteWisePublisherConfiguration: {
-                                publishingOrder: "TIME_ORDER"
+                                publishingOrder: props.publishingOrder || "TIME_ORDER",
+                                maxBatchWaitTime: props.maxBatchWaitTime,
+                                maxBatchSize: props.maxBatchSize
                             }
                         })
                     },
+                    ...(props.dataProcessingPack ? [
+                        {
+                            capabilityNamespace: "iotsitewise:edgeprocessing:1",
+                            capabilityConfiguration: JSON.stringify({})
+                        }
+                    ] : [])
                 ]
             }
         );
@@ -321,25 +917,81 @@ export class OpcuaSimulatorStack extends Stack {
             deploymentName: `${stack.stackName} - Example deployment`,
             component: {
                 // Add core public components
-                "aws.greengrass.Nucleus": { componentVersion: "2.5.5" },
-                "aws.greengrass.Cli": { componentVersion: "2.5.5" },
-                "aws.iot.SiteWiseEdgeCollectorOpcua": { componentVersion: "2.1.1" },
-                "aws.iot.SiteWiseEdgePublisher": { componentVersion: "2.1.4" },
-                "aws.greengrass.StreamManager": { componentVersion: "2.0.14" }
+                "aws.greengrass.Nucleus": { componentVersion: component_versions["aws.greengrass.Nucleus"] },
+                "aws.greengrass.Cli": { componentVersion: component_versions["aws.greengrass.Cli"] },
+                "aws.iot.SiteWiseEdgeCollectorOpcua": { componentVersion: component_versions["aws.iot.SiteWiseEdgeCollectorOpcua"] },
+                "aws.iot.SiteWiseEdgePublisher": { componentVersion: component_versions["aws.iot.SiteWiseEdgePublisher"] },
+                "aws.greengrass.StreamManager": { componentVersion: component_versions["aws.greengrass.StreamManager"] }
             }
         });
         greengrass_deployment.node.addDependency(sitewise_gateway);
         greengrass_deployment.node.addDependency(opcua_server);
 
+        // Data processing pack runs the edge computation of the asset models
+        if (props.dataProcessingPack) {
+            greengrass_deployment.addComponent({
+                "aws.iot.SiteWiseEdgeProcessor": {
+                    componentVersion: component_versions["aws.iot.SiteWiseEdgeProcessor"]
+                }
+            });
+        }
+
         greengrass_deployment.addComponent({
             "aws.greengrass.LocalDebugConsole": {
-                componentVersion: "2.2.3",
+                componentVersion: component_versions["aws.greengrass.LocalDebugConsole"],
                 configurationUpdate: {
                     merge: JSON.stringify({ httpsEnabled: "false" })
                 }
             }
         });
 
+        // The collector reads the OPC-UA credentials through the secret manager
+        if (collector_secret_arns.length > 0) {
+            greengrass_deployment.addComponent({
+                "aws.greengrass.SecretManager": {
+                    componentVersion: component_versions["aws.greengrass.SecretManager"],
+                    configurationUpdate: {
+                        merge: JSON.stringify({ cloudSecrets: collector_secret_arns.map((arn) => ({ arn: arn })) })
+                    }
+                }
+            });
+        }
+
+        // Dashboard and no data alarms of the machines, notified by email when set
+        const alarm_topic = props.alarmEmail ? new sns.Topic(this, "AlarmTopic") : undefined;
+        if (alarm_topic && props.alarmEmail) {
+            alarm_topic.addSubscription(new sns_subscriptions.EmailSubscription(props.alarmEmail));
+        }
+        const monitoring = new SimulatorMonitoring(this, "Monitoring", {
+            instanceId: opcua_server.instanceId,
+            gatewayId: sitewise_gateway.attrGatewayId,
+            greengrassProcesses: greengrass_processes,
+            nodeRedProcess: node_red_process,
+            machinePropertyAliases: sitewise_assets.machineTagAliases,
+            noDataMinutes: props.noDataAlarmMinutes,
+            alarmTopic: alarm_topic
+        });
+
+        // Run the simulator in business hours only
+        if (props.instanceSchedule) {
+            new InstanceSchedule(this, "InstanceSchedule", {
+                instanceId: opcua_server.instanceId,
+                schedule: props.instanceSchedule,
+                alarmNames: monitoring.alarmNames
+            });
+        }
+
+        // A stopped instance loses its public IP, keep the same one across the schedule
+        const elastic_ip = props.instanceSchedule && !private_vpc
+            ? new ec2.CfnEIP(this, "OpcuaServerElasticIp", { domain: "vpc" })
+            : undefined;
+        if (elastic_ip) {
+            new ec2.CfnEIPAssociation(this, "OpcuaServerElasticIpAssociation", {
+                allocationId: elastic_ip.attrAllocationId,
+                instanceId: opcua_server.instanceId
+            });
+        }
+
         // Set stack outputs to be consumed by local processes
         new CfnOutput(this, "IotRoleAliasName", {
             value: greengrass_role_alias.roleAliasName
@@ -379,28 +1031,53 @@ export class OpcuaSimulatorStack extends Stack {
             value: iot_thing_cert_policy.credentialProviderEndpointAddress
         });
 
+        Object.keys(sitewise_assets.alarmStatePropertyIds).forEach((alarm) => {
+            new CfnOutput(this, `${alarm}StatePropertyId`, {
+                value: sitewise_assets.alarmStatePropertyIds[alarm],
+                description: `Property id of the ${alarm} alarm state in the machine asset model`
+            });
+        });
+
+        // Without a public IP, the server is reached on its private IP
+        const server_ip = private_vpc
+            ? opcua_server.instancePrivateIp
+            : elastic_ip ? elastic_ip.ref : opcua_server.instancePublicIp;
         new CfnOutput(this, "NodeRedUrl", {
-            value: `http://${opcua_server.instancePublicIp}/node-red`,
+            value: load_balancer
+                ? `https://${load_balancer.loadBalancerDnsName}/node-red`
+                : `${tls_termination === "self-signed" ? "https" : "http"}://${server_ip}/node-red`,
             description: 'The URL to access Node-RED',
-            exportName: 'NodeRedUrl'
+            exportName: `${stack.stackName}-NodeRedUrl`
         });
 
         new CfnOutput(this, "NodeRedUsername", {
             value: "admin",
             description: 'The username to access Node-RED',
-            exportName: 'NodeRedUsername'
+            exportName: `${stack.stackName}-NodeRedUsername`
         });
 
-        new CfnOutput(this, "NodeRedPassword", {
-            value: "password",
-            description: 'The password to access Node-RED',
-            exportName: 'NodeRedPassword'
+        new CfnOutput(this, "NodeRedPasswordSecretArn", {
+            value: node_red_password.secretArn,
+            description: 'The ARN of the AWS Secrets Manager secret holding the password to access Node-RED',
+            exportName: `${stack.stackName}-NodeRedPasswordSecretArn`
         });
 
+        new CfnOutput(this, "MonitoringDashboardUrl", {
+            value: `https://${stack.region}.console.aws.amazon.com/cloudwatch/home?region=${stack.region}#dashboards:name=${monitoring.dashboardName}`,
+            description: 'CloudWatch dashboard of the simulator, AWS IoT Greengrass and AWS IoT SiteWise ingestion'
+        });
+
+        if (opcua_certificate_parameter) {
+            new CfnOutput(this, "OpcuaServerCertificateParameter", {
+                value: opcua_certificate_parameter.parameterName,
+                description: 'The AWS Systems Manager parameter holding the OPC-UA server certificate'
+            });
+        }
+
         new CfnOutput(this, "OpcuaEndpoint", {
-            value: `opc.tcp://${opcua_server.instancePublicIp}:54845`,
+            value: `opc.tcp://${server_ip}:${opcua_port}`,
             description: 'OPC-UA Endpoint',
-            exportName: 'OpcuaEndpoint'
+            exportName: `${stack.stackName}-OpcuaEndpoint`
         });
     }
 }
@@ -0,0 +1,56 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { App, Stack } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import { InstanceSchedule } from "../lib/constructs/instance-schedule/instance-schedule";
+
+const newStack = () => new Stack(new App(), "TestStack");
+
+describe("Instance schedule", () => {
+    test("instance is started and stopped on weekdays in the time zone", () => {
+        const stack = newStack();
+        new InstanceSchedule(stack, "InstanceSchedule", {
+            instanceId: "i-0123456789abcdef0",
+            schedule: { timezone: "Europe/Berlin", startTime: "07:00", stopTime: "19:30" },
+            alarmNames: ["NoDataAlarm"]
+        });
+        const template = Template.fromStack(stack);
+        template.resourceCountIs("AWS::Scheduler::Schedule", 4);
+        template.hasResourceProperties("AWS::Scheduler::Schedule", {
+            ScheduleExpression: "cron(0 7 ? * MON-FRI *)",
+            ScheduleExpressionTimezone: "Europe/Berlin"
+        });
+        template.hasResourceProperties("AWS::Scheduler::Schedule", {
+            ScheduleExpression: "cron(30 19 ? * MON-FRI *)",
+            Target: { Input: JSON.stringify({ InstanceIds: ["i-0123456789abcdef0"] }) }
+        });
+    });
+
+    test("invalid times are rejected", () => {
+        expect(() => new InstanceSchedule(newStack(), "InstanceSchedule", {
+            instanceId: "i-0123456789abcdef0",
+            schedule: { timezone: "Europe/Berlin", startTime: "7am", stopTime: "19:00" }
+        })).toThrow("Invalid schedule time 7am, expected HH:MM");
+        expect(() => new InstanceSchedule(newStack(), "InstanceSchedule", {
+            instanceId: "i-0123456789abcdef0",
+            schedule: { timezone: "Europe/Berlin", startTime: "19:00", stopTime: "07:00" }
+        })).toThrow("Start time 19:00 must be before stop time 07:00");
+    });
+});
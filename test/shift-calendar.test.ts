@@ -0,0 +1,76 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+import { isPlannedProduction, ShiftCalendar, validateShiftCalendar } from "../lib/constructs/sitewise-assets/shift-calendar";
+import { exampleShiftCalendar } from "../lib/stacks/constants";
+
+const calendar: ShiftCalendar = {
+    timeZone: "Europe/Berlin",
+    shifts: [
+        { name: "Early", start: "06:00", end: "14:00", breaks: [{ start: "10:00", end: "10:30" }] },
+        { name: "Night", start: "22:00", end: "06:00", days: [5] }
+    ],
+    plannedDowntime: [
+        { name: "Maintenance", start: "2022-06-15T08:00", end: "2022-06-15T12:00" }
+    ]
+};
+
+describe("isPlannedProduction", () => {
+    test.each([
+        // Monday 2022-06-13, UTC+2 in summer
+        ["2022-06-13T04:00:00Z", true],
+        ["2022-06-13T03:59:00Z", false],
+        ["2022-06-13T08:15:00Z", false],
+        ["2022-06-13T08:30:00Z", true],
+        ["2022-06-13T12:00:00Z", false],
+        // Planned downtime on Wednesday
+        ["2022-06-15T07:00:00Z", false],
+        ["2022-06-15T10:00:00Z", true],
+        // Night shift from Friday to Saturday
+        ["2022-06-17T21:00:00Z", true],
+        ["2022-06-18T02:00:00Z", true],
+        ["2022-06-18T21:00:00Z", false],
+        // Saturday morning, no early shift
+        ["2022-06-18T06:00:00Z", false]
+    ])("%s is planned: %s", (date, planned) => {
+        expect(isPlannedProduction(calendar, new Date(date))).toBe(planned);
+    });
+});
+
+describe("validateShiftCalendar", () => {
+    test("valid calendar", () => {
+        expect(validateShiftCalendar(calendar)).toEqual([]);
+    });
+
+    test("example calendar of the line", () => {
+        expect(validateShiftCalendar(exampleShiftCalendar)).toEqual([]);
+    });
+
+    test("invalid time zone, times, days and downtime", () => {
+        const errors = validateShiftCalendar({
+            timeZone: "Mars/Olympus",
+            shifts: [{ name: "Early", start: "6:00", end: "14:00", days: [0] }],
+            plannedDowntime: [{ name: "Maintenance", start: "2022-06-15T12:00", end: "2022-06-15T08:00" }]
+        });
+        expect(errors).toEqual([
+            "Unknown time zone Mars/Olympus",
+            "Shift Early: invalid time 6:00, expected HH:MM",
+            "Shift Early: invalid week day 0, expected 1 to 7",
+            "Planned downtime Maintenance: start must be before end"
+        ]);
+    });
+});
@@ -0,0 +1,173 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { App, Stack, aws_iotsitewise as sitewise } from "aws-cdk-lib";
+import { Template } from "aws-cdk-lib/assertions";
+
+import { SitewiseAssets } from "../lib/constructs/sitewise-assets/sitewise-assets";
+import {
+    evaluateExpression,
+    evaluateTransforms,
+    parseExpression,
+    validateExpressions
+} from "../lib/constructs/sitewise-assets/sitewise-expression";
+import { bottlingLine } from "../lib/stacks/constants";
+
+type AssetModelProperty = sitewise.CfnAssetModel.AssetModelPropertyProperty;
+
+// Skip bundling the custom resource functions
+const newApp = () => new App({ context: { "aws:cdk:bundling-stacks": [] } });
+
+const machineModelProperties = (): AssetModelProperty[] => {
+    const stack = new Stack(newApp(), "TestStack");
+    const assets = new SitewiseAssets(stack, "SitewiseAssets", { line: bottlingLine });
+    const machine_model = assets.node.findChild("GenericMachineModel") as sitewise.CfnAssetModel;
+    return machine_model.assetModelProperties as AssetModelProperty[];
+};
+
+describe("SiteWise expressions", () => {
+    test("arithmetic follows operator precedence", () => {
+        expect(evaluateExpression("1 + 2 * 3 - 4 / 2", {})).toBe(5);
+        expect(evaluateExpression("(1 + 2) * -3 % 5", {})).toBe(-4);
+        expect(evaluateExpression("var_a / (var_b / 60)", { var_a: 30, var_b: 120 })).toBe(15);
+    });
+
+    test("if and elif chains pick the first true branch", () => {
+        const expression = "if(eq(var_x, 1), 'ONE').elif(eq(var_x, 2), 'TWO', 'OTHER')";
+        expect(evaluateExpression(expression, { var_x: 1 })).toBe("ONE");
+        expect(evaluateExpression(expression, { var_x: 2 })).toBe("TWO");
+        expect(evaluateExpression(expression, { var_x: 3 })).toBe("OTHER");
+        expect(evaluateExpression("if(eq(var_x, 1), 'ONE').elif(eq(var_x, 2), 'TWO', none)", { var_x: 3 })).toBeNull();
+        expect(evaluateExpression("if(var_flag, 'YES', 'NO')", { var_flag: true })).toBe("YES");
+        expect(evaluateExpression("if(var_flag, 'YES', 'NO')", { var_flag: 0 })).toBe("NO");
+    });
+
+    test("invalid expressions are rejected", () => {
+        expect(() => parseExpression("if(eq(var_x, 1), 'ONE'")).toThrow("Expected ')'");
+        expect(() => parseExpression("var_x +")).toThrow("Unexpected end of expression");
+        expect(() => parseExpression("if(var_x, 1, 2).elif(var_y, 3)")).toThrow("Unexpected 'elif'");
+        expect(() => parseExpression("var_x == 1")).toThrow("Unexpected character '='");
+        expect(() => evaluateExpression("var_x + 1", {})).toThrow("No value for variable var_x");
+    });
+
+    test("validation reports unknown functions, variables and properties", () => {
+        const errors = validateExpressions([
+            {
+                dataType: "INTEGER",
+                logicalId: "Source",
+                name: "Source",
+                type: { typeName: "Measurement" }
+            },
+            {
+                dataType: "INTEGER",
+                logicalId: "Target",
+                name: "Target",
+                type: {
+                    typeName: "Transform",
+                    transform: {
+                        expression: "if(equals(var_source, 1), var_other, 0)",
+                        variables: [{ name: "var_source", value: { propertyLogicalId: "Missing" } }]
+                    }
+                }
+            }
+        ]);
+        expect(errors).toEqual([
+            "Transform Target: Unknown function equals() in expression: if(equals(var_source, 1), var_other, 0)",
+            "Transform Target: Variable var_other is not declared for expression: if(equals(var_source, 1), var_other, 0)",
+            "Transform Target: Variable var_source refers to unknown property Missing"
+        ]);
+    });
+
+    test("asset model expressions are validated at synth time", () => {
+        const valid_stack = new Stack(newApp(), "TestStack");
+        new SitewiseAssets(valid_stack, "SitewiseAssets", { line: bottlingLine });
+        expect(() => Template.fromStack(valid_stack)).not.toThrow();
+
+        const stack = new Stack(newApp(), "TestStack");
+        const assets = new SitewiseAssets(stack, "SitewiseAssets", { line: bottlingLine });
+        const machine_model = assets.node.findChild("GenericMachineModel") as sitewise.CfnAssetModel;
+        machine_model.assetModelProperties = [
+            ...(machine_model.assetModelProperties as AssetModelProperty[]),
+            {
+                dataType: "STRING",
+                logicalId: "Broken",
+                name: "Broken",
+                type: {
+                    typeName: "Transform",
+                    transform: {
+                        expression: "if(eq(var_state, 1), 'A'",
+                        variables: [{ name: "var_state", value: { propertyLogicalId: "MachineState" } }]
+                    }
+                }
+            }
+        ];
+        expect(() => Template.fromStack(stack)).toThrow("Generic Machine Model: Transform Broken");
+    });
+});
+
+describe("Machine model transforms", () => {
+    const properties = machineModelProperties();
+    const transforms = (inputs: { [logicalId: string]: number }) => evaluateTransforms(properties, {
+        MachineState: 1,
+        MachineMode: 1,
+        StopReason: 0,
+        ...inputs
+    });
+
+    test.each([
+        [1, "PRODUCING", "MachineStateEnumProducing", "NO", "NO"],
+        [2, "IDLE", "MachineStateEnumIdle", "NO", "NO"],
+        [3, "STARVED", "MachineStateEnumStarved", "YES", "NO"],
+        [4, "BLOCKED", "MachineStateEnumBlocked", "NO", "YES"],
+        [5, "CHANGEOVER", "MachineStateEnumChangeover", "NO", "NO"],
+        [6, "STOPPED", "MachineStateEnumStopped", "NO", "NO"],
+        [7, "FAULTED", "MachineStateEnumFaulted", "NO", "NO"]
+    ])("machine state %i is %s", (state, name, indicator, starved, blocked) => {
+        const values = transforms({ MachineState: state });
+        expect(values.MachineStateEnum).toBe(name);
+        Object.keys(values)
+            .filter((logicalId) => /^MachineStateEnum[A-Z]/.test(logicalId))
+            .forEach((logicalId) => expect(values[logicalId]).toBe(logicalId === indicator ? 1 : 0));
+        expect(values.MachineStateIndicatorStarved).toBe(starved);
+        expect(values.MachineStateIndicatorBlocked).toBe(blocked);
+    });
+
+    test("unknown machine states have no state name", () => {
+        expect(transforms({ MachineState: 8 }).MachineStateEnum).toBeNull();
+    });
+
+    test.each([
+        [1, "AUTOMATIC"],
+        [2, "MAINTENANCE"],
+        [3, "MANUAL"],
+        [4, null]
+    ])("machine mode %i is %s", (mode, name) => {
+        expect(transforms({ MachineMode: mode }).MachineModeEnum).toBe(name);
+    });
+
+    test.each([
+        [0, "NONE"],
+        [100, "UNPLANNED"],
+        [160, "UNPLANNED"],
+        [200, "PLANNED"],
+        [220, "PLANNED"],
+        [999, "NONE"]
+    ])("stop reason %i is in category %s", (code, category) => {
+        expect(transforms({ StopReason: code }).StopCategory).toBe(category);
+    });
+});
@@ -0,0 +1,194 @@
+/*
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: MIT-0
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this
+ * software and associated documentation files (the "Software"), to deal in the Software
+ * without restriction, including without limitation the rights to use, copy, modify,
+ * merge, publish, distribute, sublicense, and/or sell copies of the Software, and to
+ * permit persons to whom the Software is furnished to do so.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED,
+ * INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A
+ * PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT
+ * HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION
+ * OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+ * SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { App, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Construct } from "constructs";
+
+import { SitewiseAssets } from "../lib/constructs/sitewise-assets/sitewise-assets";
+import {
+    createSitewiseModel,
+    readSitewiseModelFile,
+    SitewiseModelDefinition,
+    writeSitewiseModelFile
+} from "../lib/constructs/sitewise-assets/sitewise-model";
+import { bottlingLineAssets } from "../lib/stacks/constants";
+
+// Skip bundling the custom resource functions
+const newStack = () => new Stack(new App({ context: { "aws:cdk:bundling-stacks": [] } }), "TestStack");
+
+describe("SiteWise model files", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "sitewise-model-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("exported definitions load back to the same resources", () => {
+        const stack = newStack();
+        // Alarm models and the shift calendar schedule are not part of the model definition
+        const assets = new SitewiseAssets(stack, "SitewiseAssets", { ...bottlingLineAssets, alarms: undefined, shiftCalendar: undefined });
+        const file_path = path.join(directory, "model.json");
+        writeSitewiseModelFile(file_path, assets.modelDefinition);
+
+        const loaded_stack = newStack();
+        createSitewiseModel(new Construct(loaded_stack, "SitewiseAssets"), readSitewiseModelFile(file_path));
+
+        const template = Template.fromStack(stack).toJSON().Resources;
+        const loaded_template = Template.fromStack(loaded_stack).toJSON().Resources;
+        expect(loaded_template).toEqual(template);
+        Template.fromStack(loaded_stack).resourceCountIs("AWS::IoTSiteWise::AssetModel", 5);
+    });
+
+    test("YAML model files load back to the same definition", () => {
+        const assets = new SitewiseAssets(newStack(), "SitewiseAssets", { ...bottlingLineAssets, alarms: undefined, shiftCalendar: undefined });
+        const file_path = path.join(directory, "model.yaml");
+        writeSitewiseModelFile(file_path, assets.modelDefinition);
+
+        expect(fs.readFileSync(file_path, "utf-8")).toMatch(/^assetModels:/);
+        expect(readSitewiseModelFile(file_path)).toEqual(JSON.parse(JSON.stringify(assets.modelDefinition)));
+    });
+
+    test("model files may reference the line models and assets", () => {
+        const definition: SitewiseModelDefinition = {
+            assetModels: [
+                {
+                    logicalId: "BufferModel",
+                    name: "Buffer Model",
+                    properties: [
+                        { dataType: "INTEGER", logicalId: "Level", name: "Level", type: { typeName: "Measurement" } }
+                    ]
+                }
+            ],
+            assets: [
+                {
+                    logicalId: "ConveyorAsset",
+                    name: "Conveyor",
+                    assetModel: "GenericMachineModel",
+                    attributes: { "Rated Speed": 80 }
+                },
+                { logicalId: "BufferAsset", name: "Buffer", assetModel: "BufferModel" }
+            ]
+        };
+        const file_path = path.join(directory, "model.json");
+        writeSitewiseModelFile(file_path, definition);
+
+        const stack = newStack();
+        const assets = new SitewiseAssets(stack, "SitewiseAssets", { line: bottlingLineAssets.line, modelFile: file_path });
+        const template = Template.fromStack(stack);
+
+        template.resourceCountIs("AWS::IoTSiteWise::AssetModel", 6);
+        template.hasResourceProperties("AWS::IoTSiteWise::Asset", {
+            AssetName: "Conveyor",
+            AssetModelId: stack.resolve(assets.assetModelIds.GenericMachineModel)
+        });
+        template.hasResourceProperties("AWS::CloudFormation::CustomResource", {
+            AssetId: stack.resolve(assets.assetIds.ConveyorAsset),
+            Attributes: { "Rated Speed": 80 }
+        });
+    });
+
+    test("unknown and duplicate references are rejected", () => {
+        expect(() => createSitewiseModel(new Construct(newStack(), "Model"), {
+            assetModels: [],
+            assets: [{ logicalId: "Orphan", name: "Orphan", assetModel: "MissingModel" }]
+        })).toThrow("Asset model MissingModel referenced by Orphan not found");
+
+        expect(() => createSitewiseModel(new Construct(newStack(), "Model"), {
+            assetModels: [
+                { logicalId: "A", name: "A", hierarchies: [{ logicalId: "Children", name: "Children", childAssetModel: "B" }] },
+                { logicalId: "B", name: "B", hierarchies: [{ logicalId: "Children", name: "Children", childAssetModel: "A" }] }
+            ],
+            assets: []
+        })).toThrow("Circular asset model hierarchy: A -> B -> A");
+
+        const file_path = path.join(directory, "model.json");
+        writeSitewiseModelFile(file_path, { assetModels: [{ logicalId: "LineModel", name: "Line Model" }], assets: [] });
+        expect(() => new SitewiseAssets(newStack(), "SitewiseAssets", { line: bottlingLineAssets.line, modelFile: file_path }))
+            .toThrow("Asset model LineModel is already defined");
+    });
+});
+
+describe("Property notifications", () => {
+    test("notified properties are enabled on the machine assets", () => {
+        const stack = newStack();
+        const assets = new SitewiseAssets(stack, "SitewiseAssets", {
+            line: {
+                ...bottlingLineAssets.line,
+                notifiedProperties: ["MachineState", "MachineStateEnum"],
+                inspectionStations: undefined
+            }
+        });
+        const washing_machine = assets.modelDefinition.assets.find((asset) => asset.logicalId === "WashingMachine");
+        expect(washing_machine?.properties?.filter((property) => property.notificationState === "ENABLED")).toEqual([
+            { logicalId: "MachineState", alias: "/Bottling Line/UN01/Status/StateCurrent", notificationState: "ENABLED" },
+            { logicalId: "MachineStateEnum", alias: undefined, notificationState: "ENABLED" }
+        ]);
+        expect(assets.notifiedAssetModelIds).toEqual([assets.machineAssetModelId]);
+    });
+
+    test("unknown notified properties are rejected", () => {
+        expect(() => new SitewiseAssets(newStack(), "SitewiseAssets", {
+            line: { ...bottlingLineAssets.line, notifiedProperties: ["Temperature"] }
+        })).toThrow("Unknown notified properties Temperature for asset Washing Machine");
+    });
+});
+
+describe("OPC-UA root paths", () => {
+    test("root paths cover the tag folders of the line, aliases follow the data stream prefix", () => {
+        const assets = new SitewiseAssets(newStack(), "SitewiseAssets", {
+            line: { ...bottlingLineAssets.line, dataStreamPrefix: "/Plant A" }
+        });
+        expect(assets.opcuaRootPaths).toContain("/Bottling Line/UN01/Status/*");
+        expect(assets.opcuaRootPaths).toContain("/Bottling Line/QC01/Inspection/*");
+        expect(assets.opcuaRootPaths).not.toContain("/Bottling Line/UN01/Energy/*");
+        const washing_machine = assets.modelDefinition.assets.find((asset) => asset.logicalId === "WashingMachine");
+        expect(washing_machine?.properties?.[0].alias).toEqual("/Plant A/Bottling Line/UN01/Status/StateCurrent");
+        expect(assets.machineTagAliases.UN01).toContain("/Plant A/Bottling Line/UN01/Status/StateCurrent");
+    });
+});
+
+describe("Machine alarms", () => {
+    test("alarm models write their state to the alarm composite model", () => {
+        const stack = newStack();
+        new SitewiseAssets(stack, "SitewiseAssets", { ...bottlingLineAssets, shiftCalendar: undefined });
+        Template.fromStack(stack).hasResourceProperties("AWS::IoTEvents::AlarmModel", {
+            AlarmEventActions: {
+                AlarmActions: [
+                    {
+                        IotSiteWise: {
+                            AssetId: Match.anyValue(),
+                            PropertyId: Match.anyValue(),
+                            PropertyValue: {
+                                Value: { StringValue: "${$alarmState}" },
+                                Quality: "'GOOD'"
+                            }
+                        }
+                    }
+                ]
+            }
+        });
+    });
+});